@@ -0,0 +1,159 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import {
+  ApiKey,
+  ApiKeyAuth,
+  DEFAULT_API_SCOPES,
+  getRequestClientId,
+  parseApiKeyEntries,
+  readApiKeysFile,
+  validateApiKeys
+} from './auth.js';
+
+const KEYS: ApiKey[] = [
+  { name: 'renderer', key: 'render-secret', scopes: ['render'] },
+  { name: 'ops', key: 'admin-secret', scopes: ['admin'] }
+];
+
+describe('ApiKeyAuth', () => {
+  it('未配置密钥时不启用认证', () => {
+    const auth = new ApiKeyAuth({ keys: [] });
+    assert.equal(auth.enabled, false);
+    assert.equal(auth.authenticate('anything'), undefined);
+  });
+
+  it('按密钥内容匹配', () => {
+    const auth = new ApiKeyAuth({ keys: KEYS });
+    assert.equal(auth.enabled, true);
+    assert.equal(auth.authenticate('admin-secret')?.name, 'ops');
+    assert.equal(auth.authenticate('render-secret')?.name, 'renderer');
+    assert.equal(auth.authenticate('render-secre'), undefined);
+    assert.equal(auth.authenticate(''), undefined);
+  });
+
+  it('拒绝无效的密钥配置', () => {
+    assert.throws(
+      () => new ApiKeyAuth({ keys: [{ name: 'a', key: '', scopes: ['render'] }] }),
+      /API密钥配置无效: 密钥 a 不能为空/
+    );
+  });
+});
+
+describe('ApiKeyAuth.require', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    const auth = new ApiKeyAuth({ keys: KEYS });
+    const app = express();
+    app.get('/any', auth.require(), (req, res) => res.json({ client: getRequestClientId(req, res) }));
+    app.get('/render', auth.require('render'), (_req, res) => res.json({ ok: true }));
+    app.get('/admin', auth.require('admin'), (_req, res) => res.json({ ok: true }));
+
+    server = app.listen(0, '127.0.0.1');
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('缺少密钥返回401', async () => {
+    const response = await fetch(`${baseUrl}/any`);
+    assert.equal(response.status, 401);
+    assert.equal(response.headers.get('www-authenticate'), 'Bearer');
+  });
+
+  it('无效密钥返回401', async () => {
+    const response = await fetch(`${baseUrl}/any`, { headers: { Authorization: 'Bearer wrong' } });
+    assert.equal(response.status, 401);
+    assert.equal(response.headers.get('www-authenticate'), 'Bearer error="invalid_token"');
+  });
+
+  it('缺少所需权限返回403', async () => {
+    const response = await fetch(`${baseUrl}/admin`, { headers: { Authorization: 'Bearer render-secret' } });
+    assert.equal(response.status, 403);
+    assert.equal(((await response.json()) as { message: string }).message, 'API密钥 renderer 没有 admin 权限');
+  });
+
+  it('支持 Bearer 和 X-API-Key 请求头', async () => {
+    const bearer = await fetch(`${baseUrl}/render`, { headers: { Authorization: 'bearer render-secret' } });
+    assert.equal(bearer.status, 200);
+    const header = await fetch(`${baseUrl}/admin`, { headers: { 'X-API-Key': 'admin-secret' } });
+    assert.equal(header.status, 200);
+  });
+
+  it('通过认证后以密钥名称作为客户端标识', async () => {
+    const response = await fetch(`${baseUrl}/any`, { headers: { 'X-API-Key': 'admin-secret' } });
+    assert.deepEqual(await response.json(), { client: 'key:ops' });
+  });
+});
+
+describe('validateApiKeys', () => {
+  it('接受有效配置', () => {
+    assert.equal(validateApiKeys(KEYS), null);
+  });
+
+  it('拒绝重复的密钥和名称', () => {
+    assert.match(validateApiKeys([...KEYS, { name: 'copy', key: 'admin-secret', scopes: [] }])!, /与其他密钥重复/);
+    assert.match(validateApiKeys([...KEYS, { name: 'ops', key: 'other', scopes: [] }])!, /密钥名称 ops 重复/);
+  });
+
+  it('拒绝未知的权限范围', () => {
+    const keys = [{ name: 'a', key: 'k', scopes: ['write'] }] as unknown as ApiKey[];
+    assert.match(validateApiKeys(keys)!, /权限范围 write 无效/);
+  });
+});
+
+describe('parseApiKeyEntries', () => {
+  it('解析密钥和权限，忽略空项', () => {
+    assert.deepEqual(parseApiKeyEntries([' plain ', '', 'scoped:render+admin']), [
+      { name: 'env#1', key: 'plain', scopes: DEFAULT_API_SCOPES },
+      { name: 'env#2', key: 'scoped', scopes: ['render', 'admin'] }
+    ]);
+  });
+
+  it('按最后一个冒号分隔权限', () => {
+    assert.deepEqual(parseApiKeyEntries(['a:b:validate'], 'cli'), [{ name: 'cli#1', key: 'a:b', scopes: ['validate'] }]);
+  });
+});
+
+describe('readApiKeysFile', () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mermaid-auth-test-'));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeKeysFile(content: unknown): string {
+    const file = path.join(dir, `keys-${Math.random().toString(36).slice(2)}.json`);
+    fs.writeFileSync(file, typeof content === 'string' ? content : JSON.stringify(content));
+    return file;
+  }
+
+  it('读取密钥并补充默认名称和权限', () => {
+    const file = writeKeysFile({ keys: [{ name: 'ci', key: 'k1', scopes: ['validate'] }, { key: 'k2' }] });
+    assert.deepEqual(readApiKeysFile(file), [
+      { name: 'ci', key: 'k1', scopes: ['validate'] },
+      { name: 'file#2', key: 'k2', scopes: DEFAULT_API_SCOPES }
+    ]);
+  });
+
+  it('拒绝格式错误的文件', () => {
+    assert.throws(() => readApiKeysFile(writeKeysFile('{')), /无法读取API密钥文件/);
+    assert.throws(() => readApiKeysFile(writeKeysFile({})), /必须包含 keys 数组/);
+    assert.throws(() => readApiKeysFile(writeKeysFile({ keys: [{ name: 'x' }] })), /第 1 项缺少 key/);
+    assert.throws(() => readApiKeysFile(writeKeysFile({ keys: [{ key: 'k', scopes: 'render' }] })), /scopes 必须是字符串数组/);
+  });
+});
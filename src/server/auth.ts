@@ -0,0 +1,232 @@
+/**
+ * API密钥认证模块
+ * 为HTTP模式的接口提供Bearer令牌 / API密钥认证：每个密钥有独立的权限范围，
+ * 密钥通过环境变量或JSON密钥文件配置，未配置任何密钥时不启用认证
+ */
+
+import * as fs from 'fs';
+import { createHash, timingSafeEqual } from 'crypto';
+import type express from 'express';
+
+/**
+ * 权限范围：render（渲染图表）、validate（验证、检测和检查语法）、admin（管理输出文件和缓存）
+ */
+export type ApiScope = 'render' | 'validate' | 'admin';
+
+export const API_SCOPES: ApiScope[] = ['render', 'validate', 'admin'];
+
+/**
+ * 未指定权限范围的密钥默认拥有的权限
+ */
+export const DEFAULT_API_SCOPES: ApiScope[] = ['render', 'validate'];
+
+/**
+ * API密钥
+ */
+export interface ApiKey {
+  /** 密钥名称（用于日志，不包含密钥本身） */
+  name: string;
+  key: string;
+  scopes: ApiScope[];
+}
+
+/**
+ * 认证配置
+ */
+export interface ApiKeyAuthOptions {
+  keys: ApiKey[];
+}
+
+/**
+ * 通过认证的请求在 res.locals 中保存密钥的字段名
+ */
+const API_KEY_LOCAL = 'apiKey';
+
+export class ApiKeyAuth {
+  private keys: { apiKey: ApiKey; digest: Buffer }[];
+
+  constructor(options: Partial<ApiKeyAuthOptions> = {}) {
+    const keys = options.keys ?? loadApiKeysFromEnv();
+    const error = validateApiKeys(keys);
+    if (error) {
+      throw new Error(`API密钥配置无效: ${error}`);
+    }
+    this.keys = keys.map((apiKey) => ({ apiKey, digest: digestKey(apiKey.key) }));
+  }
+
+  /**
+   * 是否启用认证（配置了至少一个密钥）
+   */
+  get enabled(): boolean {
+    return this.keys.length > 0;
+  }
+
+  /**
+   * 查找与令牌匹配的密钥：比较固定长度的哈希，并且总是比较所有密钥，耗时与令牌内容和匹配位置无关
+   */
+  authenticate(token: string): ApiKey | undefined {
+    const digest = digestKey(token);
+    let matched: ApiKey | undefined;
+    for (const { apiKey, digest: expected } of this.keys) {
+      if (timingSafeEqual(digest, expected) && !matched) {
+        matched = apiKey;
+      }
+    }
+    return matched;
+  }
+
+  /**
+   * 认证中间件：缺少或无效的密钥返回401，缺少所需权限返回403；未指定权限时只要求通过认证
+   */
+  require(scope?: ApiScope): express.RequestHandler {
+    return (req, res, next) => {
+      if (!this.enabled) {
+        next();
+        return;
+      }
+
+      const token = extractToken(req);
+      if (!token) {
+        res.set('WWW-Authenticate', 'Bearer').status(401).json({
+          error: 'Unauthorized',
+          message: '缺少API密钥，请使用 Authorization: Bearer <密钥> 或 X-API-Key 请求头'
+        });
+        return;
+      }
+
+      const apiKey = this.authenticate(token);
+      if (!apiKey) {
+        res.set('WWW-Authenticate', 'Bearer error="invalid_token"').status(401).json({
+          error: 'Unauthorized',
+          message: 'API密钥无效'
+        });
+        return;
+      }
+
+      if (scope && !apiKey.scopes.includes(scope)) {
+        res.status(403).json({
+          error: 'Forbidden',
+          message: `API密钥 ${apiKey.name} 没有 ${scope} 权限`
+        });
+        return;
+      }
+
+      res.locals[API_KEY_LOCAL] = apiKey;
+      next();
+    };
+  }
+}
+
+/**
+ * 获取通过认证的请求使用的密钥，未启用认证时为 undefined
+ */
+export function getRequestApiKey(res: express.Response): ApiKey | undefined {
+  return res.locals[API_KEY_LOCAL] as ApiKey | undefined;
+}
+
+/**
+ * 用于限流的客户端标识：通过认证时为密钥名称，否则为客户端IP
+ */
+export function getRequestClientId(req: express.Request, res: express.Response): string {
+  const apiKey = getRequestApiKey(res);
+  return apiKey ? `key:${apiKey.name}` : `ip:${req.ip ?? req.socket.remoteAddress ?? 'unknown'}`;
+}
+
+/**
+ * 校验密钥配置
+ */
+export function validateApiKeys(keys: ApiKey[]): string | null {
+  const seenKeys = new Set<string>();
+  const seenNames = new Set<string>();
+  for (const apiKey of keys) {
+    if (!apiKey.key) {
+      return `密钥 ${apiKey.name} 不能为空`;
+    }
+    if (seenKeys.has(apiKey.key)) {
+      return `密钥 ${apiKey.name} 与其他密钥重复`;
+    }
+    if (seenNames.has(apiKey.name)) {
+      return `密钥名称 ${apiKey.name} 重复`;
+    }
+    const unknownScope = apiKey.scopes.find((scope) => !API_SCOPES.includes(scope));
+    if (unknownScope) {
+      return `密钥 ${apiKey.name} 的权限范围 ${unknownScope} 无效，必须是以下值之一: ${API_SCOPES.join(', ')}`;
+    }
+    seenKeys.add(apiKey.key);
+    seenNames.add(apiKey.name);
+  }
+  return null;
+}
+
+/**
+ * 从环境变量读取密钥：
+ * MERMAID_API_KEYS 为逗号分隔的 `密钥` 或 `密钥:权限+权限`，
+ * MERMAID_API_KEYS_FILE 为JSON文件 `{ "keys": [{ "name", "key", "scopes" }] }`
+ */
+function loadApiKeysFromEnv(): ApiKey[] {
+  const keys = parseApiKeyEntries((process.env.MERMAID_API_KEYS ?? '').split(','));
+  const file = process.env.MERMAID_API_KEYS_FILE;
+  if (file) {
+    keys.push(...readApiKeysFile(file));
+  }
+  return keys;
+}
+
+/**
+ * 解析 `密钥` 或 `密钥:权限+权限` 格式的密钥（MERMAID_API_KEYS 中逗号分隔的各项），名称为 `{namePrefix}#{序号}`
+ */
+export function parseApiKeyEntries(entries: string[], namePrefix = 'env'): ApiKey[] {
+  return entries.map((entry) => entry.trim()).filter(Boolean).map((entry, index) => {
+    const separator = entry.lastIndexOf(':');
+    const key = separator === -1 ? entry : entry.slice(0, separator);
+    const scopes = separator === -1 ? DEFAULT_API_SCOPES : entry.slice(separator + 1).split('+').filter(Boolean);
+    return { name: `${namePrefix}#${index + 1}`, key, scopes: scopes as ApiScope[] };
+  });
+}
+
+/**
+ * 读取JSON密钥文件
+ */
+export function readApiKeysFile(file: string): ApiKey[] {
+  let content: unknown;
+  try {
+    content = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`无法读取API密钥文件 ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const entries = (content as { keys?: unknown })?.keys;
+  if (!Array.isArray(entries)) {
+    throw new Error(`API密钥文件 ${file} 必须包含 keys 数组`);
+  }
+  return entries.map((entry: unknown, index) => {
+    const { name, key, scopes } = (entry ?? {}) as { name?: unknown; key?: unknown; scopes?: unknown };
+    if (typeof key !== 'string') {
+      throw new Error(`API密钥文件 ${file} 第 ${index + 1} 项缺少 key`);
+    }
+    if (scopes !== undefined && !(Array.isArray(scopes) && scopes.every((scope) => typeof scope === 'string'))) {
+      throw new Error(`API密钥文件 ${file} 第 ${index + 1} 项的 scopes 必须是字符串数组`);
+    }
+    return {
+      name: typeof name === 'string' && name ? name : `file#${index + 1}`,
+      key,
+      scopes: (scopes as ApiScope[] | undefined) ?? DEFAULT_API_SCOPES
+    };
+  });
+}
+
+/**
+ * 从 Authorization: Bearer 或 X-API-Key 请求头读取令牌
+ */
+function extractToken(req: express.Request): string | undefined {
+  const authorization = req.get('Authorization');
+  const match = authorization ? /^Bearer\s+(.+)$/i.exec(authorization) : null;
+  if (match) {
+    return match[1]!.trim();
+  }
+  return req.get('X-API-Key') || undefined;
+}
+
+function digestKey(key: string): Buffer {
+  return createHash('sha256').update(key).digest();
+}
@@ -0,0 +1,55 @@
+/**
+ * 浏览器脚本资源模块
+ * 从本地安装的依赖中读取Mermaid和DOMPurify并注入Puppeteer页面，
+ * 渲染无需访问CDN，且浏览器端版本与Node端保持一致
+ */
+
+import * as fs from 'fs/promises';
+import { createRequire } from 'module';
+import type { Page } from 'puppeteer';
+
+const require = createRequire(import.meta.url);
+
+/**
+ * 需要注入页面的脚本（按顺序）
+ */
+const BROWSER_SCRIPT_MODULES = [
+  'dompurify/dist/purify.min.js',
+  'mermaid/dist/mermaid.min.js'
+];
+
+// 脚本内容只读取一次
+let scriptContents: Promise<string[]> | undefined;
+
+/**
+ * 读取本地安装的浏览器端脚本
+ */
+function loadBrowserScripts(): Promise<string[]> {
+  if (!scriptContents) {
+    scriptContents = Promise.all(
+      BROWSER_SCRIPT_MODULES.map((modulePath) => fs.readFile(require.resolve(modulePath), 'utf8'))
+    ).catch((error) => {
+      // 读取失败时不缓存，下次重试
+      scriptContents = undefined;
+      throw new Error(`无法加载本地Mermaid脚本: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  }
+  return scriptContents;
+}
+
+/**
+ * 将本地的DOMPurify和Mermaid注入页面
+ */
+export async function injectMermaidScripts(page: Page): Promise<void> {
+  const scripts = await loadBrowserScripts();
+  for (const content of scripts) {
+    await page.addScriptTag({ content });
+  }
+}
+
+/**
+ * 获取本地安装的Mermaid版本
+ */
+export function getMermaidVersion(): string {
+  return (require('mermaid/package.json') as { version: string }).version;
+}
@@ -0,0 +1,530 @@
+/**
+ * 浏览器池模块
+ * 复用同一个Chromium实例，维护一组已加载Mermaid的预热页面，
+ * 页面渲染一定次数后或崩溃时自动回收重建
+ */
+
+import puppeteer, { Browser, Page } from 'puppeteer';
+import { injectMermaidScripts } from './browser-assets.js';
+import { RenderStage, abortable, getAbortReason, throwIfAborted } from './render-context.js';
+import { createLogger, errorFields } from './logger.js';
+
+const log = createLogger('browser-pool');
+
+/**
+ * 浏览器池配置
+ */
+export interface BrowserPoolOptions {
+  /** 最多同时存在的页面数（即最大并发渲染数） */
+  size: number;
+  /** 每个页面渲染多少次后回收重建 */
+  maxRendersPerPage: number;
+  /** 等待空闲页面的超时时间（毫秒） */
+  acquireTimeout: number;
+  /** 浏览器可执行文件路径，未设置时使用Puppeteer下载的Chromium */
+  executablePath?: string;
+  /** 浏览器启动参数 */
+  args: string[];
+  /** 启动浏览器的超时时间（毫秒） */
+  launchTimeout: number;
+}
+
+/**
+ * 默认的浏览器启动参数
+ */
+export const DEFAULT_BROWSER_ARGS = [
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+  '--disable-dev-shm-usage',
+  '--disable-web-security',
+  '--disable-extensions',
+  '--disable-background-timer-throttling',
+  '--disable-backgrounding-occluded-windows',
+  '--disable-renderer-backgrounding'
+];
+
+/**
+ * 借用页面时的选项
+ */
+export interface PageRequestOptions {
+  /** 中止信号：等待页面时中止则放弃等待，执行回调时中止则关闭页面 */
+  signal?: AbortSignal;
+  /** 需要新建页面时上报启动浏览器和加载Mermaid阶段 */
+  onStage?: (stage: RenderStage) => void;
+}
+
+/**
+ * 浏览器池统计信息
+ */
+export interface BrowserPoolStats {
+  /** 浏览器启动次数 */
+  launches: number;
+  /** 浏览器启动失败次数 */
+  launchFailures: number;
+  /** 页面崩溃和浏览器意外断开的次数 */
+  crashes: number;
+  /** 当前页面数 */
+  pages: number;
+  /** 当前空闲页面数 */
+  idlePages: number;
+}
+
+/**
+ * 池中的页面
+ */
+interface PooledPage {
+  page: Page;
+  generation: number;
+  renders: number;
+  crashed: boolean;
+}
+
+/**
+ * 等待空闲页面的请求
+ */
+interface PageWaiter {
+  resolve: (pooled: PooledPage) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+const DEFAULT_VIEWPORT = { width: 800, height: 600, deviceScaleFactor: 1 };
+
+const PAGE_HTML = '<!DOCTYPE html><html><head><meta charset="utf-8"></head><body><div id="mermaid-container"></div></body></html>';
+
+/**
+ * 预热页面中的渲染、验证和重置函数
+ */
+const PAGE_SCRIPT = `
+    let renderCount = 0;
+
+    // 渲染函数（配置随每次请求传入，同一页面可连续渲染多个图表，ID需唯一）
+    window.renderMermaid = async function(mermaidCode, config) {
+        try {
+            mermaid.initialize(config);
+            const { svg } = await mermaid.render('diagram-id-' + Date.now() + '-' + (++renderCount), mermaidCode);
+            return { success: true, svg };
+        } catch (error) {
+            return {
+                success: false,
+                error: error.message || error.toString() || 'Unknown error'
+            };
+        }
+    };
+
+    // 提取解析错误的位置信息（与 syntax-diagnostics.ts 的 extractParseErrorDetails 一致）
+    function describeParseError(error) {
+        const details = { message: (error && error.message) || String(error) };
+        if (error && error.hash) {
+            const { text, token, loc, expected } = error.hash;
+            details.hash = { text, token, loc, expected };
+        }
+        if (error && error.result) {
+            details.lexerErrors = (error.result.lexerErrors || []).map((item) => ({
+                offset: item.offset,
+                length: item.length,
+                message: item.message
+            }));
+            details.parserErrors = (error.result.parserErrors || []).map((item) => ({
+                message: item.message,
+                offset: item.token && item.token.startOffset,
+                image: item.token && item.token.image,
+                tokenType: item.token && item.token.tokenType && item.token.tokenType.name
+            }));
+        }
+        return details;
+    }
+
+    // 验证函数
+    window.validateMermaid = async function(mermaidCode) {
+        try {
+            await mermaid.parse(mermaidCode);
+            return { success: true };
+        } catch (error) {
+            return {
+                success: false,
+                error: error.message || error.toString() || 'Unknown validation error',
+                details: describeParseError(error)
+            };
+        }
+    };
+
+    // 归还页面前清理上一次渲染留下的内容
+    window.resetMermaidPage = function() {
+        const container = document.getElementById('mermaid-container');
+        if (!container) {
+            return false;
+        }
+        for (const child of Array.from(document.body.children)) {
+            if (child !== container) {
+                child.remove();
+            }
+        }
+        container.innerHTML = '';
+        container.removeAttribute('style');
+        document.body.removeAttribute('style');
+        return true;
+    };
+`;
+
+export class BrowserPool {
+  private options: BrowserPoolOptions;
+  private browser?: Browser;
+  private launching?: Promise<Browser>;
+  private generation = 0;
+  private pageCount = 0;
+  private idlePages: PooledPage[] = [];
+  private waiters: PageWaiter[] = [];
+  private closed = false;
+  private launches = 0;
+  private launchFailures = 0;
+  private crashes = 0;
+
+  constructor(options: Partial<BrowserPoolOptions> = {}) {
+    this.options = {
+      size: options.size ?? parseInt(process.env.MERMAID_BROWSER_POOL_SIZE || '2'),
+      maxRendersPerPage: options.maxRendersPerPage ?? parseInt(process.env.MERMAID_BROWSER_MAX_RENDERS || '100'),
+      acquireTimeout: options.acquireTimeout ?? 30000,
+      executablePath: options.executablePath ?? (process.env.MERMAID_BROWSER_EXECUTABLE_PATH || undefined),
+      args: options.args ?? DEFAULT_BROWSER_ARGS,
+      launchTimeout: options.launchTimeout ?? parseInt(process.env.MERMAID_BROWSER_LAUNCH_TIMEOUT_MS || '10000')
+    };
+  }
+
+  /**
+   * 借用一个预热页面执行回调，结束后自动归还
+   */
+  async withPage<T>(callback: (page: Page) => Promise<T>, options: PageRequestOptions = {}): Promise<T> {
+    const { signal, onStage } = options;
+    throwIfAborted(signal);
+
+    const acquiring = this.acquire(onStage);
+    let pooled: PooledPage;
+    try {
+      pooled = await abortable(acquiring, signal);
+    } catch (error) {
+      // 放弃等待后才拿到的页面直接归还
+      acquiring.then((page) => this.release(page), () => {});
+      throw error;
+    }
+
+    // 中止时关闭页面，使正在执行的页面操作立即失败，页面归还时会被回收
+    const onAbort = () => {
+      pooled.crashed = true;
+      pooled.page.close().catch(() => {});
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      return await callback(pooled.page);
+    } catch (error) {
+      throw signal?.aborted ? getAbortReason(signal) : error;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      await this.release(pooled);
+    }
+  }
+
+  /**
+   * 预先创建页面直到池满
+   */
+  warmUp(): void {
+    while (!this.closed && this.pageCount < this.options.size) {
+      this.replenish();
+    }
+  }
+
+  /**
+   * 获取浏览器池统计信息
+   */
+  getStats(): BrowserPoolStats {
+    return {
+      launches: this.launches,
+      launchFailures: this.launchFailures,
+      crashes: this.crashes,
+      pages: this.pageCount,
+      idlePages: this.idlePages.length
+    };
+  }
+
+  /**
+   * 关闭浏览器并拒绝所有等待中的请求
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    for (const waiter of this.waiters.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new Error('浏览器池已关闭'));
+    }
+    this.idlePages = [];
+    this.pageCount = 0;
+
+    const browser = this.browser;
+    this.browser = undefined;
+    if (browser) {
+      await browser.close().catch(() => {});
+    }
+  }
+
+  /**
+   * 获取空闲页面，池满时排队等待
+   */
+  private async acquire(onStage?: (stage: RenderStage) => void): Promise<PooledPage> {
+    if (this.closed) {
+      throw new Error('浏览器池已关闭');
+    }
+
+    const idle = this.idlePages.pop();
+    if (idle) {
+      return idle;
+    }
+
+    if (this.pageCount < this.options.size) {
+      const generation = this.generation;
+      this.pageCount++;
+      try {
+        const pooled = await this.createPage(onStage);
+        // 首个页面就绪后在后台预热其余页面
+        this.warmUp();
+        return pooled;
+      } catch (error) {
+        if (generation === this.generation) {
+          this.pageCount--;
+        }
+        throw error;
+      }
+    }
+
+    return new Promise<PooledPage>((resolve, reject) => {
+      const waiter: PageWaiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.waiters = this.waiters.filter((item) => item !== waiter);
+          reject(new Error(`等待浏览器页面超时（${this.options.acquireTimeout}ms）`));
+        }, this.options.acquireTimeout)
+      };
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * 归还页面：可复用则交给下一个请求，否则回收并补充新页面
+   */
+  private async release(pooled: PooledPage): Promise<void> {
+    // 浏览器已断开，旧页面直接丢弃
+    if (pooled.generation !== this.generation) {
+      this.refill();
+      return;
+    }
+
+    pooled.renders++;
+    const reusable = !this.closed
+      && !pooled.crashed
+      && pooled.renders < this.options.maxRendersPerPage
+      && await this.resetPage(pooled.page);
+
+    if (reusable) {
+      this.handOff(pooled);
+      return;
+    }
+
+    this.pageCount--;
+    await pooled.page.close().catch(() => {});
+    this.refill();
+  }
+
+  /**
+   * 页面被回收后补充新页面，保持池满
+   */
+  private refill(): void {
+    if (!this.closed && this.pageCount < this.options.size) {
+      this.replenish();
+    }
+  }
+
+  /**
+   * 将页面交给等待者，没有等待者时放回空闲列表
+   */
+  private handOff(pooled: PooledPage): void {
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      clearTimeout(waiter.timer);
+      waiter.resolve(pooled);
+    } else {
+      this.idlePages.push(pooled);
+    }
+  }
+
+  /**
+   * 在后台创建一个新页面
+   */
+  private replenish(): void {
+    const generation = this.generation;
+    this.pageCount++;
+    this.createPage().then(
+      (pooled) => {
+        if (this.closed || pooled.generation !== this.generation) {
+          pooled.page.close().catch(() => {});
+          return;
+        }
+        this.handOff(pooled);
+      },
+      (error) => {
+        if (generation === this.generation) {
+          this.pageCount--;
+        }
+        log.warn('预热浏览器页面失败', errorFields(error));
+        // 没有页面可用时让等待者尽快失败，而不是等到超时
+        if (this.pageCount === 0) {
+          for (const waiter of this.waiters.splice(0)) {
+            clearTimeout(waiter.timer);
+            waiter.reject(error instanceof Error ? error : new Error(String(error)));
+          }
+        }
+      }
+    );
+  }
+
+  /**
+   * 创建一个已加载Mermaid的页面
+   */
+  private async createPage(onStage?: (stage: RenderStage) => void): Promise<PooledPage> {
+    if (!this.browser || !this.browser.isConnected()) {
+      onStage?.('launching-browser');
+    }
+    const browser = await this.getBrowser();
+    const generation = this.generation;
+    onStage?.('loading-mermaid');
+    const page = await browser.newPage();
+
+    const pooled: PooledPage = { page, generation, renders: 0, crashed: false };
+
+    try {
+      // 设置页面错误监听
+      page.on('console', (msg) => {
+        if (msg.type() === 'error') {
+          log.debug('浏览器控制台错误', { message: msg.text() });
+        }
+      });
+
+      page.on('pageerror', (error) => {
+        log.debug('页面错误', errorFields(error));
+      });
+
+      page.on('error', (error) => {
+        log.error('浏览器页面崩溃', errorFields(error));
+        pooled.crashed = true;
+        this.crashes++;
+      });
+
+      // 设置页面内容并注入本地的Mermaid脚本
+      await page.setContent(PAGE_HTML, { waitUntil: 'load', timeout: 30000 });
+      await injectMermaidScripts(page);
+      await page.addScriptTag({ content: PAGE_SCRIPT });
+
+      // 等待Mermaid加载完成
+      await page.waitForFunction(
+        () => typeof (window as any).mermaid !== 'undefined' && typeof (window as any).renderMermaid !== 'undefined',
+        { timeout: 30000 }
+      );
+
+      return pooled;
+    } catch (error) {
+      await page.close().catch(() => {});
+      throw error;
+    }
+  }
+
+  /**
+   * 清理页面状态，返回页面是否仍可复用
+   */
+  private async resetPage(page: Page): Promise<boolean> {
+    if (page.isClosed()) {
+      return false;
+    }
+
+    try {
+      const viewport = page.viewport();
+      if (
+        !viewport ||
+        viewport.width !== DEFAULT_VIEWPORT.width ||
+        viewport.height !== DEFAULT_VIEWPORT.height ||
+        (viewport.deviceScaleFactor ?? 1) !== DEFAULT_VIEWPORT.deviceScaleFactor
+      ) {
+        await page.setViewport(DEFAULT_VIEWPORT);
+      }
+
+      // 页面内容被替换（如PDF导出）后重置函数不存在，需要重建页面
+      return await page.evaluate(() => {
+        const reset = (window as any).resetMermaidPage;
+        return typeof reset === 'function' && reset() === true;
+      });
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 获取浏览器实例（延迟启动，断开后自动重启）
+   */
+  private async getBrowser(): Promise<Browser> {
+    if (this.browser && this.browser.isConnected()) {
+      return this.browser;
+    }
+
+    if (!this.launching) {
+      this.launching = this.launchBrowser().finally(() => {
+        this.launching = undefined;
+      });
+    }
+    return this.launching;
+  }
+
+  /**
+   * 启动浏览器并监听断开事件
+   */
+  private async launchBrowser(): Promise<Browser> {
+    log.info('启动浏览器实例');
+    this.launches++;
+    const { executablePath, args, launchTimeout } = this.options;
+    const browser = await puppeteer.launch({
+      headless: 'new',
+      ...(executablePath ? { executablePath } : {}),
+      args,
+      timeout: launchTimeout
+    }).catch((error) => {
+      this.launchFailures++;
+      log.warn('浏览器启动失败', errorFields(error));
+      throw error;
+    });
+
+    if (this.closed) {
+      await browser.close().catch(() => {});
+      throw new Error('浏览器池已关闭');
+    }
+
+    // 进程退出时确保Chromium子进程被结束
+    const killOnExit = () => {
+      browser.process()?.kill();
+    };
+    process.once('exit', killOnExit);
+
+    browser.once('disconnected', () => {
+      process.off('exit', killOnExit);
+      if (this.browser === browser) {
+        if (!this.closed) {
+          log.warn('浏览器连接断开，下次渲染时将重新启动');
+          this.crashes++;
+        }
+        this.browser = undefined;
+        this.generation++;
+        this.idlePages = [];
+        this.pageCount = 0;
+      }
+    });
+
+    this.browser = browser;
+    return browser;
+  }
+}
@@ -0,0 +1,556 @@
+/**
+ * 配置模块
+ * 依次合并默认值、配置文件（mermaid-mcp.config.json / .yaml）、环境变量和命令行参数（后者优先），
+ * 使用zod校验后转换为MCP服务器的选项
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createRequire } from 'module';
+import { z } from 'zod';
+import { parse as parseYaml } from 'yaml';
+import { MERMAID_THEMES, DEFAULT_INPUT_LIMITS } from './utils.js';
+import { DEFAULT_BROWSER_ARGS } from './browser-pool.js';
+import { validateMermaidConfig, MermaidUserConfig } from './mermaid-config.js';
+import { API_SCOPES, ApiKey, ApiKeyAuth, ApiScope, DEFAULT_API_SCOPES, parseApiKeyEntries, readApiKeysFile } from './auth.js';
+import type { SimpleMermaidMCPServerOptions } from './simple-mcp-server.js';
+import type { SSETransportOptions } from './sse-transport.js';
+
+/**
+ * 未指定配置文件时在当前目录中查找的文件名（按顺序）
+ */
+export const CONFIG_FILE_NAMES = ['mermaid-mcp.config.json', 'mermaid-mcp.config.yaml', 'mermaid-mcp.config.yml'];
+
+const lowercase = (schema: z.ZodTypeAny) => z.preprocess((value) => typeof value === 'string' ? value.toLowerCase() : value, schema);
+
+const MB = 1024 * 1024;
+
+/**
+ * 配置文件中的相对路径相对于配置文件所在目录
+ */
+const PATH_SETTINGS = ['output.dir', 'cache.dir', 'auth.apiKeysFile'];
+
+export const MermaidMcpConfigSchema = z.object({
+  /** 传输方式：stdio（本地MCP客户端）或 http（Streamable HTTP、SSE和HTTP渲染接口） */
+  transport: z.enum(['stdio', 'http']).default('stdio'),
+  /** HTTP模式监听的地址，未设置时监听所有网络接口 */
+  host: z.string().min(1).optional(),
+  port: z.number().int().min(1).max(65535).default(3000),
+  output: z.object({
+    /** 输出目录，未设置时为系统临时目录下的 mermaid-chart-mcp */
+    dir: z.string().min(1).optional(),
+    /** 文件有效期（小时），0表示不按时间清理 */
+    ttlHours: z.number().min(0).default(24),
+    /** 输出目录最大容量（MB），0表示不限制 */
+    maxMb: z.number().min(0).default(500)
+  }).strict().default({}),
+  limits: z.object({
+    maxCodeLength: z.number().int().min(1).default(DEFAULT_INPUT_LIMITS.maxCodeLength),
+    renderTimeoutMs: z.number().int().min(1000).max(600000).default(60000)
+  }).strict().default({}),
+  render: z.object({
+    defaultTheme: z.enum(MERMAID_THEMES).default('default'),
+    /** 允许使用的主题 */
+    themes: z.array(z.enum(MERMAID_THEMES)).min(1).default([...MERMAID_THEMES]),
+    /** 与每次请求的 config 合并的默认Mermaid配置 */
+    mermaidConfig: z.record(z.unknown()).default({}).superRefine((config, ctx) => {
+      const error = validateMermaidConfig(config);
+      if (error) {
+        // 去掉错误信息开头的参数名，字段路径由外层给出
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.replace(/^config\.?\s*/, '') });
+      }
+    }),
+    /** renderer 为 auto 和允许降级时依次尝试的渲染器 */
+    renderers: z.array(z.enum(['puppeteer', 'jsdom', 'static'])).min(1)
+      .refine((renderers) => new Set(renderers).size === renderers.length, '不能包含重复的渲染器')
+      .default(['puppeteer', 'jsdom', 'static'])
+  }).strict().default({}).refine((render) => render.themes.includes(render.defaultTheme), {
+    message: 'defaultTheme 必须包含在 themes 中',
+    path: ['defaultTheme']
+  }),
+  browser: z.object({
+    /** 浏览器可执行文件路径，未设置时使用Puppeteer下载的Chromium */
+    executablePath: z.string().min(1).optional(),
+    args: z.array(z.string()).default(DEFAULT_BROWSER_ARGS),
+    poolSize: z.number().int().min(1).max(32).default(2),
+    maxRendersPerPage: z.number().int().min(1).default(100),
+    launchTimeoutMs: z.number().int().min(1000).default(10000)
+  }).strict().default({}),
+  jsdom: z.object({
+    workers: z.number().int().min(1).max(32).default(2),
+    timeoutMs: z.number().int().min(1000).default(30000)
+  }).strict().default({}),
+  cache: z.object({
+    /** 内存缓存最大条目数，0表示禁用内存缓存 */
+    maxEntries: z.number().int().min(0).default(200),
+    maxMemoryMb: z.number().min(0).default(50),
+    ttlSeconds: z.number().int().min(1).default(86400),
+    /** 磁盘缓存目录，未设置时不使用磁盘缓存 */
+    dir: z.string().min(1).optional(),
+    maxDiskMb: z.number().min(0).default(500)
+  }).strict().default({}),
+  resources: z.object({
+    /** 作为MCP资源保留的最大图表数 */
+    maxDiagrams: z.number().int().min(0).default(100),
+    maxMemoryMb: z.number().min(0).default(50)
+  }).strict().default({}),
+  /** 每个客户端的限流和配额，各项为0时不限制 */
+  rateLimit: z.object({
+    requestsPerMinute: z.number().min(0).default(60),
+    /** 允许的突发请求数，默认为每分钟请求数和20中较小的值 */
+    burst: z.number().int().min(0).optional(),
+    maxConcurrentRenders: z.number().int().min(0).default(2),
+    maxSourceKbPerMinute: z.number().min(0).default(512)
+  }).strict().transform((rateLimit) => ({
+    ...rateLimit,
+    burst: rateLimit.burst ?? Math.min(rateLimit.requestsPerMinute, 20)
+  })).default({}),
+  /** HTTP模式的API密钥，未配置任何密钥时不启用认证 */
+  auth: z.object({
+    /** `密钥` 或 `密钥:权限+权限` 字符串，或带名称和权限范围的对象 */
+    apiKeys: z.array(z.union([
+      z.string().min(1),
+      z.object({
+        name: z.string().min(1).optional(),
+        key: z.string().min(1),
+        scopes: z.array(z.enum(API_SCOPES as [ApiScope, ...ApiScope[]])).optional()
+      }).strict()
+    ])).default([]),
+    /** JSON密钥文件 `{ "keys": [{ "name", "key", "scopes" }] }` */
+    apiKeysFile: z.string().min(1).optional()
+  }).strict().default({}),
+  http: z.object({
+    /** Streamable HTTP会话的空闲超时（分钟） */
+    sessionIdleMinutes: z.number().min(1).default(30),
+    /** CORS允许的来源，* 表示任意来源（通配符不允许携带凭据） */
+    allowedOrigins: z.array(z.string().min(1)).default(['*']),
+    /** 嵌入接口响应的 Cache-Control max-age（秒） */
+    embedCacheMaxAge: z.number().int().min(0).default(86400)
+  }).strict().default({}),
+  logging: z.object({
+    level: lowercase(z.enum(['error', 'warn', 'info', 'debug'])).default('info'),
+    format: lowercase(z.enum(['json', 'pretty'])).default('pretty'),
+    redactSource: z.boolean().default(true)
+  }).strict().default({})
+}).strict();
+
+export type MermaidMcpConfig = z.infer<typeof MermaidMcpConfigSchema>;
+
+/**
+ * 配置无效（配置文件、环境变量或命令行参数有误）
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+type SettingType = 'string' | 'number' | 'boolean' | 'list';
+
+/**
+ * 可以通过环境变量和命令行参数设置的配置项
+ */
+interface Setting {
+  /** 配置文件中的路径 */
+  path: string;
+  type: SettingType;
+  env?: string;
+  flag?: string;
+  description: string;
+}
+
+const SETTINGS: Setting[] = [
+  { path: 'transport', type: 'string', env: 'MERMAID_TRANSPORT', flag: '--transport', description: '传输方式（stdio/http）' },
+  { path: 'host', type: 'string', env: 'MERMAID_HOST', flag: '--host', description: 'HTTP模式监听的地址，默认所有网络接口' },
+  { path: 'port', type: 'number', env: 'MERMAID_PORT', flag: '--port', description: 'HTTP模式的端口，默认3000' },
+  { path: 'output.dir', type: 'string', env: 'MERMAID_OUTPUT_DIR', flag: '--output-dir', description: '输出目录' },
+  { path: 'output.ttlHours', type: 'number', env: 'MERMAID_OUTPUT_TTL_HOURS', flag: '--output-ttl-hours', description: '输出文件有效期（小时），默认24，0表示不按时间清理' },
+  { path: 'output.maxMb', type: 'number', env: 'MERMAID_OUTPUT_MAX_MB', flag: '--output-max-mb', description: '输出目录最大容量（MB），默认500，0表示不限制' },
+  { path: 'limits.maxCodeLength', type: 'number', env: 'MERMAID_MAX_CODE_LENGTH', flag: '--max-code-length', description: 'Mermaid代码的最大字符数，默认50000' },
+  { path: 'limits.renderTimeoutMs', type: 'number', env: 'MERMAID_RENDER_TIMEOUT_MS', flag: '--render-timeout', description: '默认请求超时时间（毫秒），默认60000' },
+  { path: 'render.defaultTheme', type: 'string', env: 'MERMAID_DEFAULT_THEME', flag: '--theme', description: '默认主题' },
+  { path: 'render.themes', type: 'list', env: 'MERMAID_THEMES', flag: '--themes', description: '允许使用的主题（逗号分隔）' },
+  { path: 'render.renderers', type: 'list', env: 'MERMAID_RENDERERS', flag: '--renderers', description: '渲染器顺序（逗号分隔），默认 puppeteer,jsdom,static' },
+  { path: 'browser.executablePath', type: 'string', env: 'MERMAID_BROWSER_EXECUTABLE_PATH', flag: '--browser-path', description: '浏览器可执行文件路径' },
+  { path: 'browser.poolSize', type: 'number', env: 'MERMAID_BROWSER_POOL_SIZE', flag: '--browser-pool-size', description: '浏览器池页面数，默认2' },
+  { path: 'browser.maxRendersPerPage', type: 'number', env: 'MERMAID_BROWSER_MAX_RENDERS', description: '单个页面渲染多少次后回收重建，默认100' },
+  { path: 'browser.launchTimeoutMs', type: 'number', env: 'MERMAID_BROWSER_LAUNCH_TIMEOUT_MS', description: '启动浏览器的超时时间（毫秒），默认10000' },
+  { path: 'jsdom.workers', type: 'number', env: 'MERMAID_JSDOM_WORKERS', flag: '--jsdom-workers', description: 'JSDOM工作线程数，默认2' },
+  { path: 'jsdom.timeoutMs', type: 'number', env: 'MERMAID_JSDOM_TIMEOUT_MS', description: '单个JSDOM任务的超时时间（毫秒），默认30000' },
+  { path: 'cache.maxEntries', type: 'number', env: 'MERMAID_CACHE_MAX_ENTRIES', flag: '--cache-max-entries', description: '内存缓存最大条目数，默认200，0表示禁用内存缓存' },
+  { path: 'cache.maxMemoryMb', type: 'number', env: 'MERMAID_CACHE_MAX_MEMORY_MB', description: '内存缓存最大容量（MB），默认50' },
+  { path: 'cache.ttlSeconds', type: 'number', env: 'MERMAID_CACHE_TTL_SECONDS', description: '缓存有效期（秒），默认86400' },
+  { path: 'cache.dir', type: 'string', env: 'MERMAID_CACHE_DIR', flag: '--cache-dir', description: '磁盘缓存目录，默认不使用磁盘缓存' },
+  { path: 'cache.maxDiskMb', type: 'number', env: 'MERMAID_CACHE_MAX_DISK_MB', description: '磁盘缓存最大容量（MB），默认500' },
+  { path: 'resources.maxDiagrams', type: 'number', env: 'MERMAID_RESOURCE_MAX_DIAGRAMS', description: '作为MCP资源保留的最大图表数，默认100' },
+  { path: 'resources.maxMemoryMb', type: 'number', env: 'MERMAID_RESOURCE_MAX_MEMORY_MB', description: '图表资源最大占用内存（MB），默认50' },
+  { path: 'rateLimit.requestsPerMinute', type: 'number', env: 'MERMAID_RATE_LIMIT_PER_MINUTE', flag: '--rate-limit', description: '每个客户端每分钟的请求数，默认60，0表示不限制' },
+  { path: 'rateLimit.burst', type: 'number', env: 'MERMAID_RATE_LIMIT_BURST', description: '允许的突发请求数，默认为每分钟请求数和20中较小的值' },
+  { path: 'rateLimit.maxConcurrentRenders', type: 'number', env: 'MERMAID_MAX_CONCURRENT_RENDERS', flag: '--max-concurrent-renders', description: '每个客户端同时进行的渲染数，默认2，0表示不限制' },
+  { path: 'rateLimit.maxSourceKbPerMinute', type: 'number', env: 'MERMAID_MAX_SOURCE_KB_PER_MINUTE', description: '每个客户端每分钟提交的源码大小（KB），默认512，0表示不限制' },
+  { path: 'auth.apiKeys', type: 'list', env: 'MERMAID_API_KEYS', description: 'API密钥（密钥[:权限+权限]，逗号分隔）' },
+  { path: 'auth.apiKeysFile', type: 'string', env: 'MERMAID_API_KEYS_FILE', flag: '--api-keys-file', description: 'JSON格式的API密钥文件' },
+  { path: 'http.sessionIdleMinutes', type: 'number', env: 'MERMAID_MCP_SESSION_IDLE_MINUTES', description: 'Streamable HTTP会话的空闲超时（分钟），默认30' },
+  { path: 'http.allowedOrigins', type: 'list', env: 'ALLOWED_ORIGINS', flag: '--allowed-origins', description: 'CORS允许的来源（逗号分隔），默认*' },
+  { path: 'http.embedCacheMaxAge', type: 'number', env: 'MERMAID_EMBED_CACHE_MAX_AGE', description: '嵌入接口的 Cache-Control max-age（秒），默认86400' },
+  { path: 'logging.level', type: 'string', env: 'LOG_LEVEL', flag: '--log-level', description: '日志级别（error/warn/info/debug）' },
+  { path: 'logging.format', type: 'string', env: 'LOG_FORMAT', flag: '--log-format', description: '日志格式（pretty/json）' },
+  { path: 'logging.redactSource', type: 'boolean', env: 'LOG_REDACT_SOURCE', description: '是否在日志中隐藏图表源码，默认true' }
+];
+
+/**
+ * 命令行参数
+ */
+export interface CliOptions {
+  /** 配置文件路径 */
+  configFile?: string;
+  printConfig: boolean;
+  help: boolean;
+  version: boolean;
+  /** 命令行参数设置的配置项 */
+  overrides: Record<string, unknown>;
+}
+
+/**
+ * 解析命令行参数，支持 `--name=value` 和 `--name value` 两种写法，未知参数抛出 ConfigError
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { printConfig: false, help: false, version: false, overrides: {} };
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index]!;
+    const separator = arg.indexOf('=');
+    const name = arg.startsWith('--') && separator !== -1 ? arg.slice(0, separator) : arg;
+    const takeValue = (): string => {
+      if (name !== arg) {
+        return arg.slice(separator + 1);
+      }
+      const value = argv[++index];
+      if (value === undefined || value.startsWith('-')) {
+        throw new ConfigError(`参数 ${name} 缺少值`);
+      }
+      return value;
+    };
+
+    switch (name) {
+      case '--help':
+      case '-h':
+        options.help = true;
+        continue;
+      case '--version':
+      case '-v':
+        options.version = true;
+        continue;
+      case '--print-config':
+        options.printConfig = true;
+        continue;
+      case '--config':
+      case '-c':
+        options.configFile = takeValue();
+        continue;
+      case '--stdio':
+        options.overrides.transport = 'stdio';
+        continue;
+      // --sse 和 -s 保留为 --http 的别名
+      case '--http':
+      case '--sse':
+      case '-s':
+        options.overrides.transport = 'http';
+        continue;
+    }
+
+    const setting = SETTINGS.find((candidate) => candidate.flag === name);
+    if (!setting) {
+      throw new ConfigError(`未知参数 ${arg}，使用 --help 查看可用参数`);
+    }
+    setPath(options.overrides, setting.path, convertValue(takeValue(), setting.type, `参数 ${name}`));
+  }
+
+  return options;
+}
+
+/**
+ * 加载配置：依次合并默认值、配置文件、环境变量和命令行参数并校验
+ */
+export function loadConfig(
+  cli: CliOptions,
+  env: NodeJS.ProcessEnv = process.env,
+  cwd: string = process.cwd()
+): { config: MermaidMcpConfig; configFile?: string } {
+  const configFile = resolveConfigFile(cli.configFile ?? env.MERMAID_MCP_CONFIG, cwd);
+  const fileConfig = configFile ? readConfigFile(configFile) : {};
+
+  const envConfig: Record<string, unknown> = {};
+  for (const setting of SETTINGS) {
+    const value = setting.env ? env[setting.env] : undefined;
+    if (value !== undefined && value !== '') {
+      setPath(envConfig, setting.path, convertValue(value, setting.type, `环境变量 ${setting.env}`));
+    }
+  }
+
+  const result = MermaidMcpConfigSchema.safeParse(mergeLayers(mergeLayers(fileConfig, envConfig), cli.overrides));
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => {
+      const field = issue.path.join('.');
+      return issue.code === 'unrecognized_keys'
+        ? `${field ? `${field} ` : ''}包含不支持的配置项: ${issue.keys.join(', ')}`
+        : `${field} ${issue.message}`;
+    });
+    throw new ConfigError(`配置无效${configFile ? `（配置文件 ${configFile}）` : ''}: ${issues.join('; ')}`);
+  }
+
+  return { config: result.data, configFile };
+}
+
+/**
+ * 将配置转换为MCP服务器的选项
+ */
+export function toServerOptions(config: MermaidMcpConfig): SimpleMermaidMCPServerOptions {
+  const { limits, render, browser, output, jsdom, cache, resources, rateLimit } = config;
+  return {
+    browserPool: {
+      size: browser.poolSize,
+      maxRendersPerPage: browser.maxRendersPerPage,
+      executablePath: browser.executablePath,
+      args: browser.args,
+      launchTimeout: browser.launchTimeoutMs
+    },
+    jsdomPool: {
+      size: jsdom.workers,
+      jobTimeout: jsdom.timeoutMs
+    },
+    renderCache: {
+      maxEntries: cache.maxEntries,
+      maxMemoryBytes: cache.maxMemoryMb * MB,
+      ttlMs: cache.ttlSeconds * 1000,
+      diskDir: cache.dir,
+      maxDiskBytes: cache.maxDiskMb * MB
+    },
+    diagramResources: {
+      maxDiagrams: resources.maxDiagrams,
+      maxBytes: resources.maxMemoryMb * MB
+    },
+    outputStore: {
+      dir: output.dir,
+      ttlMs: output.ttlHours * 60 * 60 * 1000,
+      maxBytes: output.maxMb * MB
+    },
+    rateLimit: {
+      requestsPerMinute: rateLimit.requestsPerMinute,
+      burst: rateLimit.burst,
+      maxConcurrentRenders: rateLimit.maxConcurrentRenders,
+      maxSourceBytesPerMinute: rateLimit.maxSourceKbPerMinute * 1024
+    },
+    limits: {
+      maxCodeLength: limits.maxCodeLength,
+      themes: render.themes
+    },
+    render: {
+      theme: render.defaultTheme,
+      mermaidConfig: render.mermaidConfig as MermaidUserConfig,
+      renderers: render.renderers,
+      timeoutMs: limits.renderTimeoutMs
+    }
+  };
+}
+
+/**
+ * 将配置转换为HTTP服务器的选项，读取密钥文件并校验密钥，密钥无效时抛出 ConfigError
+ */
+export function toHttpOptions(config: MermaidMcpConfig): Partial<SSETransportOptions> {
+  const { http } = config;
+  let auth: ApiKeyAuth;
+  try {
+    auth = new ApiKeyAuth({ keys: resolveApiKeys(config) });
+  } catch (error) {
+    throw new ConfigError(error instanceof Error ? error.message : String(error));
+  }
+  return {
+    auth,
+    sessionIdleMinutes: http.sessionIdleMinutes,
+    allowedOrigins: http.allowedOrigins,
+    embedCacheMaxAge: http.embedCacheMaxAge
+  };
+}
+
+/**
+ * 用于 --print-config 的配置：隐藏API密钥
+ */
+export function redactConfig(config: MermaidMcpConfig): MermaidMcpConfig {
+  const apiKeys = config.auth.apiKeys.map((entry) => {
+    if (typeof entry !== 'string') {
+      return { ...entry, key: REDACTED };
+    }
+    const separator = entry.lastIndexOf(':');
+    return separator === -1 ? REDACTED : `${REDACTED}${entry.slice(separator)}`;
+  });
+  return { ...config, auth: { ...config.auth, apiKeys } };
+}
+
+/**
+ * 包的版本号
+ */
+export function getPackageVersion(): string {
+  // 源码和构建产物都位于包根目录下两级
+  const require = createRequire(import.meta.url);
+  return (require('../../package.json') as { version: string }).version;
+}
+
+/**
+ * 命令行帮助信息
+ */
+export function formatHelp(): string {
+  const flags = SETTINGS.filter((setting) => setting.flag).map((setting) => [`${setting.flag} <value>`, setting.description]);
+  const rows = [
+    ['-c, --config <file>', `配置文件路径，默认在当前目录查找 ${CONFIG_FILE_NAMES.join(' / ')}`],
+    ['--stdio', '使用stdio传输（默认）'],
+    ['--http, --sse, -s', '启动HTTP服务器（Streamable HTTP、SSE和HTTP渲染接口）'],
+    ...flags,
+    ['--print-config', '输出合并后的有效配置（JSON）并退出'],
+    ['-h, --help', '显示帮助信息'],
+    ['-v, --version', '显示版本号']
+  ];
+  const width = Math.max(...rows.map(([flag]) => flag!.length));
+  const envRows = SETTINGS.filter((setting) => setting.env).map((setting) => `  ${setting.env!.padEnd(34)}${setting.path}`);
+
+  return [
+    `Mermaid Chart MCP 服务器 ${getPackageVersion()}`,
+    '',
+    '用法: mermaid-mcp [选项]',
+    '',
+    '选项:',
+    ...rows.map(([flag, description]) => `  ${flag!.padEnd(width + 2)}${description}`),
+    '',
+    '优先级: 命令行参数 > 环境变量 > 配置文件 > 默认值',
+    '',
+    '环境变量（对应的配置项）:',
+    '  MERMAID_MCP_CONFIG                配置文件路径',
+    ...envRows,
+    ''
+  ].join('\n');
+}
+
+const REDACTED = '***';
+
+/**
+ * 合并配置中的密钥和密钥文件中的密钥
+ */
+function resolveApiKeys(config: MermaidMcpConfig): ApiKey[] {
+  const { apiKeys, apiKeysFile } = config.auth;
+  const keys = apiKeys.map((entry, index): ApiKey => {
+    if (typeof entry === 'string') {
+      return { ...parseApiKeyEntries([entry])[0]!, name: `key#${index + 1}` };
+    }
+    return { name: entry.name ?? `key#${index + 1}`, key: entry.key, scopes: entry.scopes ?? DEFAULT_API_SCOPES };
+  });
+  return apiKeysFile ? [...keys, ...readApiKeysFile(apiKeysFile)] : keys;
+}
+
+/**
+ * 确定使用的配置文件：指定的文件必须存在，否则在当前目录中查找
+ */
+function resolveConfigFile(file: string | undefined, cwd: string): string | undefined {
+  if (file) {
+    const resolved = path.resolve(cwd, file);
+    if (!fs.existsSync(resolved)) {
+      throw new ConfigError(`配置文件不存在: ${resolved}`);
+    }
+    return resolved;
+  }
+  return CONFIG_FILE_NAMES.map((name) => path.join(cwd, name)).find((candidate) => fs.existsSync(candidate));
+}
+
+/**
+ * 读取JSON或YAML配置文件，其中的相对路径（输出目录、缓存目录和密钥文件）相对于配置文件所在目录
+ */
+function readConfigFile(file: string): Record<string, unknown> {
+  let content: unknown;
+  try {
+    const text = fs.readFileSync(file, 'utf8');
+    content = /\.ya?ml$/i.test(file) ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new ConfigError(`无法读取配置文件 ${file}: ${(error instanceof Error ? error.message : String(error)).split('\n', 1)[0]}`);
+  }
+
+  // 空的YAML文件解析为 null
+  if (content === null || content === undefined) {
+    return {};
+  }
+  if (!isPlainObject(content)) {
+    throw new ConfigError(`配置文件 ${file} 的内容必须是对象`);
+  }
+  for (const settingPath of PATH_SETTINGS) {
+    const value = getPath(content, settingPath);
+    if (typeof value === 'string') {
+      setPath(content, settingPath, path.resolve(path.dirname(file), value));
+    }
+  }
+  return content;
+}
+
+/**
+ * 将环境变量或命令行参数的字符串转换为配置项的类型
+ */
+function convertValue(value: string, type: SettingType, source: string): unknown {
+  switch (type) {
+    case 'number': {
+      const number = Number(value);
+      if (value.trim() === '' || !Number.isFinite(number)) {
+        throw new ConfigError(`${source} 必须是数字: ${value}`);
+      }
+      return number;
+    }
+    case 'boolean':
+      if (['true', '1'].includes(value)) {
+        return true;
+      }
+      if (['false', '0'].includes(value)) {
+        return false;
+      }
+      throw new ConfigError(`${source} 必须是 true 或 false: ${value}`);
+    case 'list':
+      return value.split(',').map((item) => item.trim()).filter(Boolean);
+    default:
+      return value;
+  }
+}
+
+function getPath(target: Record<string, unknown>, dottedPath: string): unknown {
+  let current: unknown = target;
+  for (const key of dottedPath.split('.')) {
+    if (!isPlainObject(current)) {
+      return undefined;
+    }
+    current = current[key];
+  }
+  return current;
+}
+
+function setPath(target: Record<string, unknown>, dottedPath: string, value: unknown): void {
+  const keys = dottedPath.split('.');
+  let current = target;
+  for (const key of keys.slice(0, -1)) {
+    if (!isPlainObject(current[key])) {
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  }
+  current[keys[keys.length - 1]!] = value;
+}
+
+/**
+ * 合并两层配置：对象逐层合并，数组和其他值整体替换
+ */
+function mergeLayers(base: Record<string, unknown>, override: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    const current = result[key];
+    result[key] = isPlainObject(current) && isPlainObject(value) ? mergeLayers(current, value) : value;
+  }
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { deflateRawSync, deflateSync } from 'zlib';
+import { PAKO_PREFIX, decodeDiagramSource } from './diagram-encoding.js';
+import { InputValidationError } from './utils.js';
+
+const CODE = 'graph TD\n  A[开始] --> B[结束]';
+
+/** Kroki的编码方式：zlib deflate + base64url */
+function encodeKroki(text: string): string {
+  return deflateSync(Buffer.from(text, 'utf8')).toString('base64url');
+}
+
+/** mermaid.live 的编码方式：pako deflate 压缩的JSON状态 */
+function encodePako(state: unknown): string {
+  return PAKO_PREFIX + deflateSync(Buffer.from(JSON.stringify(state), 'utf8')).toString('base64url');
+}
+
+describe('decodeDiagramSource', () => {
+  it('解码Kroki格式', () => {
+    assert.deepEqual(decodeDiagramSource(encodeKroki(CODE)), { mermaidCode: CODE });
+  });
+
+  it('兼容不带zlib头的数据和标准base64字符', () => {
+    assert.equal(decodeDiagramSource(deflateRawSync(CODE).toString('base64url')).mermaidCode, CODE);
+    assert.equal(decodeDiagramSource(deflateSync(CODE).toString('base64')).mermaidCode, CODE);
+  });
+
+  it('解码 mermaid.live 状态中的代码、主题和配置', () => {
+    const encoded = encodePako({ code: CODE, mermaid: JSON.stringify({ theme: 'dark', flowchart: { curve: 'basis' } }) });
+    assert.deepEqual(decodeDiagramSource(encoded), {
+      mermaidCode: CODE,
+      theme: 'dark',
+      config: { flowchart: { curve: 'basis' } }
+    });
+  });
+
+  it('mermaid.live 状态没有配置时只返回代码', () => {
+    assert.deepEqual(decodeDiagramSource(encodePako({ code: CODE, mermaid: '' })), { mermaidCode: CODE });
+    assert.deepEqual(decodeDiagramSource(encodePako({ code: CODE, mermaid: '{"theme":"forest"}' })), {
+      mermaidCode: CODE,
+      theme: 'forest'
+    });
+  });
+
+  it('拒绝无效的编码', () => {
+    assert.throws(() => decodeDiagramSource('not base64!'), /不是有效的base64url字符串/);
+    assert.throws(() => decodeDiagramSource('aGVsbG8'), /无法解压编码的图表/);
+    assert.throws(() => decodeDiagramSource(''), InputValidationError);
+  });
+
+  it('拒绝无效的 mermaid.live 状态', () => {
+    assert.throws(() => decodeDiagramSource(PAKO_PREFIX + encodeKroki('not json')), /不是有效的JSON/);
+    assert.throws(() => decodeDiagramSource(encodePako({ mermaid: '{}' })), /缺少 code 字段/);
+    assert.throws(() => decodeDiagramSource(encodePako({ code: CODE, mermaid: '{' })), /mermaid 配置不是有效的JSON/);
+  });
+
+  it('拒绝解压后超过1MB的内容', () => {
+    const encoded = encodeKroki('%%'.repeat(600 * 1024));
+    assert.throws(() => decodeDiagramSource(encoded), /超过1MB/);
+  });
+});
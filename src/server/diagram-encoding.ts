@@ -0,0 +1,96 @@
+/**
+ * 图表源码URL编码模块
+ * 解码Kroki格式（deflate + base64url）和 mermaid.live 链接中的 pako: 格式，
+ * 使图表可以直接通过URL嵌入
+ */
+
+import { inflateRawSync, inflateSync } from 'zlib';
+import { InputValidationError } from './utils.js';
+
+/**
+ * mermaid.live 链接中 pako 编码的前缀
+ */
+export const PAKO_PREFIX = 'pako:';
+
+/**
+ * 解压后源码的最大字节数（防止压缩炸弹）
+ */
+const MAX_DECODED_BYTES = 1024 * 1024;
+
+/**
+ * 解码后的图表
+ */
+export interface DecodedDiagram {
+  mermaidCode: string;
+  /** pako 状态中的主题 */
+  theme?: string;
+  /** pako 状态中除主题外的Mermaid配置 */
+  config?: Record<string, unknown>;
+}
+
+/**
+ * 解码URL中的图表：pako: 前缀为 mermaid.live 格式，否则为Kroki格式
+ */
+export function decodeDiagramSource(encoded: string): DecodedDiagram {
+  return encoded.startsWith(PAKO_PREFIX)
+    ? decodePako(encoded.slice(PAKO_PREFIX.length))
+    : { mermaidCode: inflate(encoded).toString('utf8') };
+}
+
+/**
+ * 解码 mermaid.live 的状态：pako deflate 压缩的JSON { code, mermaid }，mermaid 为配置的JSON字符串
+ */
+function decodePako(encoded: string): DecodedDiagram {
+  let state: unknown;
+  try {
+    state = JSON.parse(inflate(encoded).toString('utf8'));
+  } catch (error) {
+    if (error instanceof InputValidationError) {
+      throw error;
+    }
+    throw new InputValidationError('pako 编码的内容不是有效的JSON');
+  }
+
+  const { code, mermaid } = (state ?? {}) as { code?: unknown; mermaid?: unknown };
+  if (typeof code !== 'string') {
+    throw new InputValidationError('pako 编码的内容缺少 code 字段');
+  }
+
+  let mermaidConfig: Record<string, unknown> = {};
+  if (typeof mermaid === 'string' && mermaid.trim()) {
+    try {
+      mermaidConfig = JSON.parse(mermaid) as Record<string, unknown>;
+    } catch {
+      throw new InputValidationError('pako 编码的 mermaid 配置不是有效的JSON');
+    }
+  }
+
+  const { theme, ...config } = mermaidConfig;
+  return {
+    mermaidCode: code,
+    ...(typeof theme === 'string' ? { theme } : {}),
+    ...(Object.keys(config).length > 0 ? { config } : {})
+  };
+}
+
+/**
+ * base64url 解码后解压，兼容带zlib头和不带头（raw deflate）的数据
+ */
+function inflate(encoded: string): Buffer {
+  if (!/^[A-Za-z0-9_\-+/]+=*$/.test(encoded)) {
+    throw new InputValidationError('编码的图表不是有效的base64url字符串');
+  }
+
+  // 同时兼容标准base64字符
+  const data = Buffer.from(encoded.replace(/\+/g, '-').replace(/\//g, '_'), 'base64url');
+  for (const decompress of [inflateSync, inflateRawSync]) {
+    try {
+      return decompress(data, { maxOutputLength: MAX_DECODED_BYTES });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+        throw new InputValidationError('解码后的图表超过1MB');
+      }
+    }
+  }
+  throw new InputValidationError('无法解压编码的图表（需要deflate + base64url）');
+}
@@ -0,0 +1,228 @@
+/**
+ * 图表资源模块
+ * 将渲染结果登记为MCP资源 mermaid://diagrams/{id}.{扩展名}，同一图表的SVG、位图和源码（.mmd）共用一个ID，
+ * 客户端可以通过 resources/read 读取，或在后续工具调用中用URI引用之前的图表；
+ * 图表按所有者（API密钥或客户端）隔离，客户端只能列出和读取自己渲染的图表
+ */
+
+import { RenderCache } from './render-cache.js';
+
+/**
+ * 图表资源URI前缀
+ */
+export const DIAGRAM_URI_PREFIX = 'mermaid://diagrams/';
+
+/**
+ * 资源扩展名对应的MIME类型
+ */
+const MIME_TYPES: Record<string, string> = {
+  mmd: 'text/vnd.mermaid',
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  webp: 'image/webp'
+};
+
+/**
+ * 以文本形式返回的资源扩展名，其余以base64返回
+ */
+const TEXT_EXTENSIONS = ['mmd', 'svg'];
+
+/**
+ * 图表资源配置
+ */
+export interface DiagramResourceStoreOptions {
+  /** 最多保留的图表数，超出时移除最久未使用的图表 */
+  maxDiagrams: number;
+  /** 所有图表输出最多占用的字节数 */
+  maxBytes: number;
+}
+
+/**
+ * 登记渲染结果的参数
+ */
+export interface DiagramRegistration {
+  mermaidCode: string;
+  theme: string;
+  config?: unknown;
+  title: string;
+  /** 图表类型名称（用于资源描述） */
+  diagramType: string;
+  /** 输出扩展名：svg、png、jpg、webp */
+  extension: string;
+  data: Buffer;
+  /** 所有者，未设置时所有客户端都可以访问（如stdio） */
+  owner?: string;
+}
+
+/**
+ * resources/list 中的资源
+ */
+export interface DiagramResource {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+/**
+ * resources/read 返回的资源内容
+ */
+export type DiagramResourceContents =
+  | { uri: string; mimeType: string; text: string }
+  | { uri: string; mimeType: string; blob: string };
+
+interface StoredDiagram {
+  id: string;
+  owner?: string;
+  title: string;
+  diagramType: string;
+  mermaidCode: string;
+  outputs: Map<string, Buffer>;
+  size: number;
+  updatedAt: Date;
+}
+
+export class DiagramResourceStore {
+  private options: DiagramResourceStoreOptions;
+  private diagrams = new Map<string, StoredDiagram>();
+  private totalBytes = 0;
+
+  /**
+   * @param onListChanged 资源列表变化（新增或移除URI）时调用
+   */
+  constructor(options: Partial<DiagramResourceStoreOptions> = {}, private onListChanged: () => void = () => {}) {
+    this.options = {
+      maxDiagrams: options.maxDiagrams ?? parseInt(process.env.MERMAID_RESOURCE_MAX_DIAGRAMS || '100'),
+      maxBytes: options.maxBytes ?? parseInt(process.env.MERMAID_RESOURCE_MAX_MEMORY_MB || '50') * 1024 * 1024
+    };
+  }
+
+  /**
+   * 登记渲染结果，返回输出和源码的资源URI
+   * 图表ID由所有者、代码、主题和配置决定，相同图表的不同格式共用一个ID，不同所有者的相同图表互不影响
+   */
+  register(registration: DiagramRegistration): { id: string; uri: string; sourceUri: string } {
+    const { mermaidCode, theme, config, title, diagramType, extension, data, owner } = registration;
+    const id = RenderCache.createKey({ resource: 'diagram', owner, mermaidCode, theme, config }).slice(0, 16);
+    const uri = `${DIAGRAM_URI_PREFIX}${id}.${extension}`;
+    const sourceUri = `${DIAGRAM_URI_PREFIX}${id}.mmd`;
+
+    if (this.options.maxDiagrams <= 0 || data.length > this.options.maxBytes) {
+      return { id, uri, sourceUri };
+    }
+
+    const existing = this.diagrams.get(id);
+    const isNewUri = !existing?.outputs.has(extension);
+    const diagram: StoredDiagram = existing ?? {
+      id,
+      owner,
+      title,
+      diagramType,
+      mermaidCode,
+      outputs: new Map(),
+      size: Buffer.byteLength(mermaidCode, 'utf8'),
+      updatedAt: new Date()
+    };
+
+    if (existing) {
+      this.diagrams.delete(id);
+      this.totalBytes -= existing.size;
+      diagram.size -= existing.outputs.get(extension)?.length ?? 0;
+    }
+    diagram.outputs.set(extension, data);
+    diagram.size += data.length;
+    diagram.title = title;
+    diagram.updatedAt = new Date();
+
+    // 重新插入以更新LRU顺序
+    this.diagrams.set(id, diagram);
+    this.totalBytes += diagram.size;
+
+    const evicted = this.evict(id);
+    if (isNewUri || evicted) {
+      this.onListChanged();
+    }
+    return { id, uri, sourceUri };
+  }
+
+  /**
+   * 列出所有者的资源（最近更新的图表在前），未指定所有者时列出所有资源
+   */
+  list(owner?: string): DiagramResource[] {
+    const resources: DiagramResource[] = [];
+    for (const diagram of [...this.diagrams.values()].reverse()) {
+      if (!isAccessible(diagram, owner)) {
+        continue;
+      }
+      const description = `${diagram.diagramType}，更新于 ${diagram.updatedAt.toISOString()}`;
+      for (const extension of ['mmd', ...diagram.outputs.keys()]) {
+        resources.push({
+          uri: `${DIAGRAM_URI_PREFIX}${diagram.id}.${extension}`,
+          name: `${diagram.title} (${extension === 'mmd' ? '源码' : extension.toUpperCase()})`,
+          description,
+          mimeType: MIME_TYPES[extension] ?? 'application/octet-stream'
+        });
+      }
+    }
+    return resources;
+  }
+
+  /**
+   * 读取资源内容，不属于该所有者的资源视为不存在
+   */
+  read(uri: string, owner?: string): DiagramResourceContents {
+    const { diagram, extension } = this.resolve(uri, owner);
+    const mimeType = MIME_TYPES[extension] ?? 'application/octet-stream';
+    const data = extension === 'mmd' ? Buffer.from(diagram.mermaidCode, 'utf8') : diagram.outputs.get(extension);
+    if (!data) {
+      throw new Error(`资源不存在: ${uri}`);
+    }
+    return TEXT_EXTENSIONS.includes(extension)
+      ? { uri, mimeType, text: data.toString('utf8') }
+      : { uri, mimeType, blob: data.toString('base64') };
+  }
+
+  /**
+   * 获取资源对应图表的Mermaid代码（URI可以是该图表的任意格式）
+   */
+  getSource(uri: string, owner?: string): string {
+    return this.resolve(uri, owner).diagram.mermaidCode;
+  }
+
+  private resolve(uri: string, owner: string | undefined): { diagram: StoredDiagram; extension: string } {
+    const match = uri.startsWith(DIAGRAM_URI_PREFIX) ? /^([0-9a-f]+)\.([a-z]+)$/.exec(uri.slice(DIAGRAM_URI_PREFIX.length)) : null;
+    if (!match) {
+      throw new Error(`无效的图表资源URI: ${uri}（格式为 ${DIAGRAM_URI_PREFIX}{id}.{svg|png|jpg|webp|mmd}）`);
+    }
+    const diagram = this.diagrams.get(match[1]!);
+    if (!diagram || !isAccessible(diagram, owner)) {
+      throw new Error(`资源不存在或已过期: ${uri}`);
+    }
+    return { diagram, extension: match[2]! };
+  }
+
+  /**
+   * 按图表数和字节数淘汰最久未使用的图表（不淘汰刚登记的图表），返回是否有图表被移除
+   */
+  private evict(keepId: string): boolean {
+    let evicted = false;
+    while (this.diagrams.size > this.options.maxDiagrams || this.totalBytes > this.options.maxBytes) {
+      const oldestId = this.diagrams.keys().next().value;
+      if (oldestId === undefined || oldestId === keepId) {
+        break;
+      }
+      this.totalBytes -= this.diagrams.get(oldestId)!.size;
+      this.diagrams.delete(oldestId);
+      evicted = true;
+    }
+    return evicted;
+  }
+}
+
+/**
+ * 未指定所有者时可以访问所有图表，否则只能访问该所有者的图表
+ */
+function isAccessible(diagram: StoredDiagram, owner: string | undefined): boolean {
+  return owner === undefined || diagram.owner === owner;
+}
@@ -0,0 +1,131 @@
+/**
+ * 图表类型检测模块
+ * 将Mermaid检测器ID映射为稳定的图表类型ID和中文名称，
+ * 并提供与Mermaid检测器顺序一致的本地规则（无需加载Mermaid，用于同步检测和降级）
+ */
+
+import { preprocessWithOrigins } from './syntax-diagnostics.js';
+
+/**
+ * 稳定的图表类型ID
+ */
+export type DiagramTypeId =
+  | 'c4'
+  | 'kanban'
+  | 'class'
+  | 'er'
+  | 'gantt'
+  | 'info'
+  | 'pie'
+  | 'requirement'
+  | 'sequence'
+  | 'flowchart'
+  | 'timeline'
+  | 'gitGraph'
+  | 'state'
+  | 'journey'
+  | 'quadrantChart'
+  | 'sankey'
+  | 'packet'
+  | 'xychart'
+  | 'block'
+  | 'radar'
+  | 'architecture'
+  | 'mindmap'
+  | 'unknown';
+
+/**
+ * 图表类型检测结果
+ */
+export interface DiagramTypeInfo {
+  id: DiagramTypeId;
+  /** 中文名称 */
+  name: string;
+  /** 代码中声明图表类型的关键词（如 flowchart、stateDiagram-v2） */
+  keyword?: string;
+  /** mermaid 为Mermaid检测器，pattern 为本地规则 */
+  source: 'mermaid' | 'pattern';
+}
+
+interface DiagramTypeDefinition {
+  id: Exclude<DiagramTypeId, 'unknown'>;
+  name: string;
+  /** 匹配预处理后代码开头的声明 */
+  pattern: RegExp;
+  /** 对应的Mermaid检测器ID */
+  detectorIds: string[];
+}
+
+/**
+ * 按Mermaid注册检测器的顺序排列，先匹配的优先
+ */
+const DIAGRAM_TYPES: DiagramTypeDefinition[] = [
+  { id: 'c4', name: 'C4架构图', pattern: /^C4(Context|Container|Component|Dynamic|Deployment)\b/, detectorIds: ['c4'] },
+  { id: 'kanban', name: '看板', pattern: /^kanban\b/, detectorIds: ['kanban'] },
+  { id: 'class', name: '类图', pattern: /^classDiagram(-v2)?\b/, detectorIds: ['class', 'classDiagram'] },
+  { id: 'er', name: 'ER图', pattern: /^erDiagram\b/, detectorIds: ['er'] },
+  { id: 'gantt', name: '甘特图', pattern: /^gantt\b/, detectorIds: ['gantt'] },
+  { id: 'info', name: '信息', pattern: /^info\b/, detectorIds: ['info'] },
+  { id: 'pie', name: '饼图', pattern: /^pie\b/, detectorIds: ['pie'] },
+  { id: 'requirement', name: '需求图', pattern: /^requirement(Diagram)?\b/, detectorIds: ['requirement'] },
+  { id: 'sequence', name: '序列图', pattern: /^sequenceDiagram\b/, detectorIds: ['sequence'] },
+  { id: 'flowchart', name: '流程图', pattern: /^(graph|flowchart(-elk)?)\b/, detectorIds: ['flowchart', 'flowchart-v2', 'flowchart-elk'] },
+  { id: 'timeline', name: '时间线', pattern: /^timeline\b/, detectorIds: ['timeline'] },
+  { id: 'gitGraph', name: 'Git图', pattern: /^gitGraph\b/, detectorIds: ['gitGraph'] },
+  { id: 'state', name: '状态图', pattern: /^stateDiagram(-v2)?\b/, detectorIds: ['state', 'stateDiagram'] },
+  { id: 'journey', name: '用户旅程图', pattern: /^journey\b/, detectorIds: ['journey'] },
+  { id: 'quadrantChart', name: '象限图', pattern: /^quadrantChart\b/, detectorIds: ['quadrantChart'] },
+  { id: 'sankey', name: '桑基图', pattern: /^sankey-beta\b/, detectorIds: ['sankey'] },
+  { id: 'packet', name: '数据包图', pattern: /^packet-beta\b/, detectorIds: ['packet'] },
+  { id: 'xychart', name: 'XY图表', pattern: /^xychart-beta\b/, detectorIds: ['xychart'] },
+  { id: 'block', name: '块图', pattern: /^block-beta\b/, detectorIds: ['block'] },
+  { id: 'radar', name: '雷达图', pattern: /^radar-beta\b/, detectorIds: ['radar'] },
+  { id: 'architecture', name: '架构图', pattern: /^architecture(-beta)?\b/, detectorIds: ['architecture'] },
+  { id: 'mindmap', name: '思维导图', pattern: /^mindmap\b/, detectorIds: ['mindmap'] }
+];
+
+const UNKNOWN_NAME = '未知类型';
+
+/**
+ * 支持的图表声明关键词（用于错误提示）
+ */
+export const DIAGRAM_KEYWORDS = [
+  'flowchart', 'graph', 'sequenceDiagram', 'classDiagram', 'stateDiagram-v2', 'erDiagram',
+  'gantt', 'pie', 'journey', 'gitGraph', 'mindmap', 'timeline', 'requirementDiagram',
+  'C4Context', 'quadrantChart', 'sankey-beta', 'xychart-beta', 'block-beta', 'packet-beta',
+  'architecture-beta', 'kanban', 'radar-beta'
+];
+
+/**
+ * 使用本地规则检测图表类型（跳过frontmatter、%%{init}%%指令和注释）
+ */
+export function detectDiagramType(code: string): DiagramTypeInfo {
+  const { text } = preprocessWithOrigins(code);
+  const keyword = findKeyword(text);
+  const definition = DIAGRAM_TYPES.find((item) => item.pattern.test(text));
+  return definition
+    ? { id: definition.id, name: definition.name, ...(keyword ? { keyword } : {}), source: 'pattern' }
+    : { id: 'unknown', name: UNKNOWN_NAME, ...(keyword ? { keyword } : {}), source: 'pattern' };
+}
+
+/**
+ * 将Mermaid检测器ID转为检测结果，detectorId 为空表示Mermaid无法识别
+ */
+export function diagramTypeFromDetector(detectorId: string | undefined, code: string): DiagramTypeInfo {
+  const keyword = findKeyword(preprocessWithOrigins(code).text);
+  const definition = DIAGRAM_TYPES.find((item) => detectorId && item.detectorIds.includes(detectorId));
+  return definition
+    ? { id: definition.id, name: definition.name, ...(keyword ? { keyword } : {}), source: 'mermaid' }
+    : { id: 'unknown', name: UNKNOWN_NAME, ...(keyword ? { keyword } : {}), source: 'mermaid' };
+}
+
+/**
+ * 格式化为“中文名称 (ID)”
+ */
+export function formatDiagramType(info: DiagramTypeInfo): string {
+  return info.id === 'unknown' ? info.name : `${info.name} (${info.id})`;
+}
+
+function findKeyword(text: string): string | undefined {
+  return /^[^\s;:{]+/.exec(text)?.[0];
+}
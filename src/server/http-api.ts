@@ -0,0 +1,244 @@
+/**
+ * HTTP渲染接口模块
+ * 为非MCP客户端（CI脚本、文档站点构建等）提供 POST /api/render 和 POST /api/validate，
+ * 以及Kroki兼容的 GET /mermaid/{svg|png}/{编码的源码}，与MCP工具共用渲染核心和缓存
+ */
+
+import express from 'express';
+import type { DiagramRenderOutput, DiagramRenderRequest, SimpleMermaidMCPServer } from './simple-mcp-server.js';
+import { MermaidSyntaxError } from './syntax-diagnostics.js';
+import { decodeDiagramSource } from './diagram-encoding.js';
+import { RenderCache } from './render-cache.js';
+import { getMermaidVersion } from './browser-assets.js';
+import { InputValidationError } from './utils.js';
+import { ApiKeyAuth, getRequestClientId } from './auth.js';
+import { RateLimitError, countSourceBytes } from './rate-limiter.js';
+import { createLogger, errorFields } from './logger.js';
+
+const log = createLogger('http-api');
+
+/**
+ * 请求体为Mermaid源码时接受的Content-Type
+ */
+const TEXT_BODY_TYPES = ['text/plain', 'text/vnd.mermaid', 'application/vnd.mermaid'];
+
+/**
+ * 可以通过查询参数传入的渲染选项
+ */
+const STRING_QUERY_PARAMS = ['format', 'theme', 'title', 'renderer', 'backgroundColor'] as const;
+const NUMBER_QUERY_PARAMS = ['scale', 'width', 'height', 'quality', 'timeoutMs'] as const;
+
+/**
+ * GET嵌入接口支持的格式（与Kroki的Mermaid输出格式一致）
+ */
+const EMBED_FORMATS = ['svg', 'png'];
+
+/**
+ * 创建HTTP渲染接口路由
+ */
+export function createHttpApiRouter(
+  mcpServer: SimpleMermaidMCPServer,
+  auth: ApiKeyAuth,
+  options: { embedCacheMaxAge: number }
+): express.Router {
+  const router = express.Router();
+  router.use(express.text({ type: TEXT_BODY_TYPES, limit: '1mb' }));
+  const embedMaxAge = options.embedCacheMaxAge;
+
+  // 渲染图表，直接返回SVG或位图
+  router.post('/api/render', auth.require('render'), async (req, res) => {
+    const signal = abortOnClose(res);
+    let releaseQuota: (() => void) | undefined;
+    try {
+      // 参数类型由 renderDiagram 校验
+      const request = { ...parseQuery(req.query), ...parseBody(req.body) } as unknown as DiagramRenderRequest;
+      releaseQuota = mcpServer.acquireQuota(getRequestClientId(req, res), { render: true, sourceBytes: countSourceBytes(request) });
+      sendRendered(res, request, await mcpServer.renderDiagram(request, signal));
+    } catch (error) {
+      sendError(res, error);
+    } finally {
+      releaseQuota?.();
+    }
+  });
+
+  // Kroki兼容的嵌入接口，源码为deflate + base64url（Kroki）或 pako:（mermaid.live）编码
+  router.get('/mermaid/:format/:encoded', auth.require('render'), async (req, res) => {
+    const signal = abortOnClose(res);
+    let releaseQuota: (() => void) | undefined;
+    try {
+      const { format, encoded } = req.params as { format: string; encoded: string };
+      if (!EMBED_FORMATS.includes(format)) {
+        throw new InputValidationError(`格式必须是以下值之一: ${EMBED_FORMATS.join(', ')}`);
+      }
+      const { mermaidCode, theme, config } = decodeDiagramSource(encoded);
+      const request = {
+        mermaidCode,
+        ...(theme ? { theme } : {}),
+        ...(config ? { config } : {}),
+        ...parseQuery(req.query),
+        format
+      } as unknown as DiagramRenderRequest;
+
+      // 相同URL和Mermaid版本的渲染结果不变，ETag由请求内容的哈希决定，客户端缓存有效时无需渲染
+      const etag = `"${RenderCache.createKey({ endpoint: 'embed', ...request, mermaidVersion: getMermaidVersion() }).slice(0, 32)}"`;
+      res.set({ ETag: etag, 'Cache-Control': `public, max-age=${embedMaxAge}` });
+      if (matchesETag(req.get('If-None-Match'), etag)) {
+        res.status(304).end();
+        return;
+      }
+
+      // 命中客户端缓存的请求不计入配额
+      releaseQuota = mcpServer.acquireQuota(getRequestClientId(req, res), { render: true, sourceBytes: countSourceBytes(request) });
+      sendRendered(res, request, await mcpServer.renderDiagram(request, signal));
+    } catch (error) {
+      sendError(res, error);
+    } finally {
+      releaseQuota?.();
+    }
+  });
+
+  // 验证语法，语法错误同样返回200，由 valid 字段区分
+  router.post('/api/validate', auth.require('validate'), async (req, res) => {
+    const signal = abortOnClose(res);
+    try {
+      const params: Record<string, unknown> = { ...parseQuery(req.query), ...parseBody(req.body) };
+      mcpServer.acquireQuota(getRequestClientId(req, res), { render: false, sourceBytes: countSourceBytes(params) });
+      const result = await mcpServer.validateDiagram(params.mermaidCode as string, { timeoutMs: params.timeoutMs as number | undefined }, signal);
+      res.json({
+        valid: result.valid,
+        validator: result.validator,
+        diagramType: { id: result.diagramType.id, name: result.diagramType.name },
+        diagnostics: result.diagnostics
+      });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  return router;
+}
+
+/**
+ * 返回渲染结果；未明确要求静态占位图时，占位图说明所有渲染器都失败了，返回422
+ */
+function sendRendered(res: express.Response, request: DiagramRenderRequest, result: DiagramRenderOutput): void {
+  if (result.renderer === 'static' && request.renderer !== 'static') {
+    sendError(res, new RenderUnavailableError(result.fallbackReasons));
+    return;
+  }
+
+  res.set({
+    'Content-Type': result.mimeType,
+    'X-Mermaid-Diagram-Type': result.diagramType.id,
+    'X-Mermaid-Renderer': result.renderer,
+    'X-Mermaid-Cache': result.cache,
+    ...(result.width !== undefined ? { 'X-Mermaid-Width': String(result.width) } : {}),
+    ...(result.height !== undefined ? { 'X-Mermaid-Height': String(result.height) } : {})
+  });
+  res.send(result.data);
+}
+
+/**
+ * If-None-Match 是否包含当前ETag（我们就是源服务器，请求带 no-cache 时同样可以返回304）
+ */
+function matchesETag(ifNoneMatch: string | undefined, etag: string): boolean {
+  return (ifNoneMatch ?? '').split(',').some((tag) => {
+    const value = tag.trim();
+    return value === '*' || value.replace(/^W\//, '') === etag;
+  });
+}
+
+/**
+ * 所有渲染器都失败，只能生成静态占位图
+ */
+class RenderUnavailableError extends Error {
+  constructor(readonly fallbackReasons: string[]) {
+    super('未能渲染图表，所有渲染器均失败');
+    this.name = 'RenderUnavailableError';
+  }
+}
+
+/**
+ * 客户端在响应完成前断开时中止渲染
+ */
+function abortOnClose(res: express.Response): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      controller.abort(new Error('客户端已断开连接'));
+    }
+  });
+  return controller.signal;
+}
+
+/**
+ * 解析请求体：源码文本或JSON对象
+ */
+function parseBody(body: unknown): Record<string, unknown> {
+  if (typeof body === 'string') {
+    return { mermaidCode: body };
+  }
+  if (body && typeof body === 'object' && !Array.isArray(body)) {
+    return body as Record<string, unknown>;
+  }
+  return {};
+}
+
+/**
+ * 解析查询参数中的渲染选项（数字参数无法解析时交给参数校验报错）
+ */
+function parseQuery(query: express.Request['query']): Record<string, unknown> {
+  const options: Record<string, unknown> = {};
+  for (const name of STRING_QUERY_PARAMS) {
+    const value = firstValue(query[name]);
+    if (value !== undefined) {
+      options[name] = value;
+    }
+  }
+  for (const name of NUMBER_QUERY_PARAMS) {
+    const value = firstValue(query[name]);
+    if (value !== undefined) {
+      options[name] = Number(value);
+    }
+  }
+  const allowFallback = firstValue(query.allowFallback);
+  if (allowFallback !== undefined) {
+    options.allowFallback = allowFallback === 'true' ? true : allowFallback === 'false' ? false : allowFallback;
+  }
+  return options;
+}
+
+function firstValue(value: unknown): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  return typeof first === 'string' ? first : undefined;
+}
+
+/**
+ * 按错误类型返回对应的HTTP状态码
+ */
+function sendError(res: express.Response, error: unknown): void {
+  if (res.headersSent || res.destroyed) {
+    return;
+  }
+
+  // 错误响应不能被缓存
+  res.removeHeader('ETag');
+  res.set('Cache-Control', 'no-store');
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof InputValidationError) {
+    res.status(400).json({ error: 'Bad Request', message });
+  } else if (error instanceof MermaidSyntaxError) {
+    res.status(422).json({ error: 'Unprocessable Entity', message, diagnostics: error.diagnostics });
+  } else if (error instanceof RenderUnavailableError) {
+    res.status(422).json({ error: 'Unprocessable Entity', message, fallbackReasons: error.fallbackReasons });
+  } else if (error instanceof RateLimitError) {
+    res.set('Retry-After', String(error.retryAfterSeconds));
+    res.status(429).json({ error: 'Too Many Requests', message, reason: error.reason, retryAfterSeconds: error.retryAfterSeconds });
+  } else if (error instanceof Error && error.name === 'TimeoutError') {
+    res.status(504).json({ error: 'Gateway Timeout', message });
+  } else {
+    log.error('HTTP接口错误', errorFields(error));
+    res.status(500).json({ error: 'Internal Server Error', message });
+  }
+}
@@ -1,49 +1,80 @@
 /**
  * Mermaid Chart MCP 服务器主入口
- * 支持两种传输方式：
- * 1. stdio - 标准输入输出（用于MCP客户端）
- * 2. sse - 服务器发送事件（用于Web界面测试）
+ * 支持两种运行方式：
+ * 1. stdio - 标准输入输出（用于本地MCP客户端）
+ * 2. HTTP - Web服务器，同时提供 Streamable HTTP（/mcp）和旧版SSE（/sse）传输，每个会话独立
+ * 配置来自配置文件、环境变量和命令行参数，详见 --help
  */
 
-import { SimpleMermaidMCPServer } from './simple-mcp-server.js';
-import { SSETransport } from './sse-transport.js';
+import { SimpleMermaidMCPServer, SimpleMermaidMCPServerOptions } from './simple-mcp-server.js';
+import { SSETransport, SSETransportOptions } from './sse-transport.js';
+import { configureLogger, createLogger, errorFields } from './logger.js';
+import {
+  ConfigError,
+  formatHelp,
+  getPackageVersion,
+  loadConfig,
+  parseCliArgs,
+  redactConfig,
+  toHttpOptions,
+  toServerOptions
+} from './config.js';
+
+const log = createLogger('server');
 
 class MermaidChartServer {
   private mcpServer: SimpleMermaidMCPServer;
 
-  constructor() {
-    this.mcpServer = new SimpleMermaidMCPServer();
+  constructor(options: SimpleMermaidMCPServerOptions = {}) {
+    this.mcpServer = new SimpleMermaidMCPServer(options);
   }
 
   /**
    * 启动stdio模式（默认）
    */
   async startStdio(): Promise<void> {
-    console.error('🚀 启动 Mermaid Chart MCP 服务器 (stdio 模式)');
+    log.info('启动 Mermaid Chart MCP 服务器', { mode: 'stdio' });
     await this.mcpServer.run();
   }
 
   /**
-   * 启动SSE模式（Web服务器）
+   * 启动HTTP模式（Web服务器）
    */
-  async startSSE(port: number = 3000): Promise<void> {
-    const sseTransport = new SSETransport(this.mcpServer);
-    await sseTransport.start(port);
+  async startSSE(port: number = 3000, host?: string, options: Partial<SSETransportOptions> = {}): Promise<void> {
+    const sseTransport = new SSETransport(this.mcpServer, options);
+    await sseTransport.start(port, host);
   }
 }
 
 // 主函数
 async function main() {
-  const args = process.argv.slice(2);
-  const server = new MermaidChartServer();
-
-  if (args.includes('--sse') || args.includes('-s')) {
-    // SSE模式
-    const portArg = args.find(arg => arg.startsWith('--port='));
-    const port = portArg ? parseInt(portArg.split('=')[1]!) : 3000;
-    await server.startSSE(port);
+  const cli = parseCliArgs(process.argv.slice(2));
+  if (cli.help) {
+    process.stdout.write(formatHelp());
+    return;
+  }
+  if (cli.version) {
+    process.stdout.write(`${getPackageVersion()}\n`);
+    return;
+  }
+
+  const { config, configFile } = loadConfig(cli);
+  if (cli.printConfig) {
+    process.stdout.write(`${JSON.stringify(redactConfig(config), null, 2)}\n`);
+    return;
+  }
+
+  configureLogger(config.logging);
+  if (configFile) {
+    log.info('已加载配置文件', { file: configFile });
+  }
+
+  // HTTP模式先读取和校验API密钥，密钥无效时按配置错误退出
+  const httpOptions = config.transport === 'http' ? toHttpOptions(config) : undefined;
+  const server = new MermaidChartServer(toServerOptions(config));
+  if (httpOptions) {
+    await server.startSSE(config.port, config.host, httpOptions);
   } else {
-    // 默认stdio模式
     await server.startStdio();
   }
 }
@@ -51,9 +82,14 @@ async function main() {
 // 如果直接运行此文件
 if (import.meta.url === `file://${process.argv[1]}`) {
   main().catch((error) => {
-    console.error('❌ 服务器启动失败:', error);
+    if (error instanceof ConfigError) {
+      // 配置错误直接输出完整信息，不受日志级别和截断影响
+      process.stderr.write(`${error.message}\n`);
+    } else {
+      log.error('服务器启动失败', errorFields(error));
+    }
     process.exit(1);
   });
 }
 
-export { MermaidChartServer }; 
\ No newline at end of file
+export { MermaidChartServer };
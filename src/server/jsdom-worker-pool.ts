@@ -0,0 +1,291 @@
+/**
+ * JSDOM工作线程池模块
+ * 在 worker_threads 中执行JSDOM渲染、语法解析和图表类型检测，每个线程拥有独立的DOM和Mermaid实例，
+ * 任务超时或线程崩溃时结束该线程，后续任务自动启动新线程
+ */
+
+import { Worker } from 'worker_threads';
+import { fileURLToPath } from 'url';
+import { getAbortReason } from './render-context.js';
+import { ParseErrorDetails, MermaidSyntaxError, buildSyntaxDiagnostics } from './syntax-diagnostics.js';
+import { LoggerOptions, createLogger, errorFields, getLoggerOptions } from './logger.js';
+
+const log = createLogger('jsdom');
+
+/**
+ * 工作线程池配置
+ */
+export interface JsdomWorkerPoolOptions {
+  /** 最多同时运行的工作线程数 */
+  size: number;
+  /** 单个任务的超时时间（毫秒） */
+  jobTimeout: number;
+}
+
+/**
+ * 创建工作线程时传入的数据
+ */
+export interface JsdomWorkerData {
+  /** 主线程当前的日志配置，工作线程中的日志模块是独立的实例，不会继承 configureLogger 的设置 */
+  logging: LoggerOptions;
+}
+
+/**
+ * 工作线程任务
+ */
+type JsdomJob =
+  | { type: 'render'; code: string; config: Record<string, unknown> }
+  | { type: 'parse'; code: string }
+  | { type: 'detect'; code: string };
+
+/**
+ * 发送给工作线程的任务
+ */
+export type JsdomWorkerRequest = JsdomJob & { id: number };
+
+/**
+ * 工作线程返回的结果
+ */
+export type JsdomWorkerResponse =
+  | { id: number; success: true; result?: string }
+  | { id: number; success: false; error: string; details?: ParseErrorDetails };
+
+/**
+ * 排队或执行中的任务
+ */
+interface PendingJob {
+  job: JsdomJob;
+  resolve: (result: string | undefined) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * 池中的工作线程
+ */
+interface PooledWorker {
+  worker: Worker;
+  current?: PendingJob & { id: number; timer: NodeJS.Timeout };
+}
+
+/**
+ * 工作线程脚本路径：构建后为同目录的 .js 文件，开发模式（ts-node）下为 .ts 文件
+ */
+function resolveWorkerScript(): URL {
+  const extension = fileURLToPath(import.meta.url).endsWith('.ts') ? 'ts' : 'js';
+  return new URL(`./jsdom-worker.${extension}`, import.meta.url);
+}
+
+export class JsdomWorkerPool {
+  private options: JsdomWorkerPoolOptions;
+  private workers: PooledWorker[] = [];
+  private queue: PendingJob[] = [];
+  private nextJobId = 0;
+  private closed = false;
+
+  constructor(options: Partial<JsdomWorkerPoolOptions> = {}) {
+    this.options = {
+      size: options.size ?? parseInt(process.env.MERMAID_JSDOM_WORKERS || '2'),
+      jobTimeout: options.jobTimeout ?? parseInt(process.env.MERMAID_JSDOM_TIMEOUT_MS || '30000')
+    };
+  }
+
+  /**
+   * 在工作线程中渲染SVG
+   */
+  async render(code: string, config: Record<string, unknown>, signal?: AbortSignal): Promise<string> {
+    const svg = await this.run({ type: 'render', code, config }, signal);
+    if (!svg) {
+      throw new Error('JSDOM渲染失败：SVG为空');
+    }
+    return svg;
+  }
+
+  /**
+   * 在工作线程中解析Mermaid语法，语法错误时抛出带诊断信息的 MermaidSyntaxError
+   */
+  async parse(code: string, signal?: AbortSignal): Promise<void> {
+    await this.run({ type: 'parse', code }, signal);
+  }
+
+  /**
+   * 使用Mermaid的检测器识别图表类型，返回检测器ID，无法识别时返回 undefined
+   */
+  async detect(code: string, signal?: AbortSignal): Promise<string | undefined> {
+    return this.run({ type: 'detect', code }, signal);
+  }
+
+  /**
+   * 结束所有工作线程并拒绝未完成的任务
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    const error = new Error('JSDOM工作线程池已关闭');
+    for (const pending of this.queue.splice(0)) {
+      pending.reject(error);
+    }
+
+    const workers = this.workers.splice(0);
+    for (const pooled of workers) {
+      if (pooled.current) {
+        clearTimeout(pooled.current.timer);
+        pooled.current.reject(error);
+        pooled.current = undefined;
+      }
+    }
+    await Promise.all(workers.map((pooled) => pooled.worker.terminate().catch(() => {})));
+  }
+
+  /**
+   * 提交任务并等待结果，中止时移出队列或结束正在执行该任务的线程
+   */
+  private run(job: JsdomJob, signal?: AbortSignal): Promise<string | undefined> {
+    if (this.closed) {
+      return Promise.reject(new Error('JSDOM工作线程池已关闭'));
+    }
+    if (signal?.aborted) {
+      return Promise.reject(getAbortReason(signal));
+    }
+
+    return new Promise((resolve, reject) => {
+      const pending: PendingJob = { job, resolve, reject };
+      const onAbort = () => {
+        const error = getAbortReason(signal!);
+        const index = this.queue.indexOf(pending);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          reject(error);
+          return;
+        }
+        const running = this.workers.find((item) => item.current?.job === job);
+        if (running) {
+          this.discard(running, error);
+        }
+      };
+
+      if (signal) {
+        signal.addEventListener('abort', onAbort, { once: true });
+        pending.resolve = (result) => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(result);
+        };
+        pending.reject = (error) => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        };
+      }
+
+      this.queue.push(pending);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * 将排队的任务分配给空闲线程，线程不足时启动新线程
+   */
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let pooled = this.workers.find((item) => !item.current);
+      if (!pooled) {
+        if (this.workers.length >= this.options.size) {
+          return;
+        }
+        pooled = this.spawn();
+      }
+      this.assign(pooled, this.queue.shift()!);
+    }
+  }
+
+  /**
+   * 把任务发送给线程并开始计时
+   */
+  private assign(pooled: PooledWorker, pending: PendingJob): void {
+    const id = ++this.nextJobId;
+    const timer = setTimeout(() => {
+      this.discard(pooled, new Error(`JSDOM任务超时（${this.options.jobTimeout}ms）`));
+    }, this.options.jobTimeout);
+
+    pooled.current = { ...pending, id, timer };
+    pooled.worker.ref();
+    const request: JsdomWorkerRequest = { ...pending.job, id };
+    pooled.worker.postMessage(request);
+  }
+
+  /**
+   * 将失败结果转为错误，语法错误附带诊断信息
+   */
+  private toJobError(job: JsdomJob, response: Extract<JsdomWorkerResponse, { success: false }>): Error {
+    if (job.type !== 'parse' || !response.details) {
+      return new Error(response.error);
+    }
+    try {
+      return new MermaidSyntaxError(response.error, buildSyntaxDiagnostics(job.code, response.details));
+    } catch (error) {
+      log.warn('生成语法诊断失败', errorFields(error));
+      return new Error(response.error);
+    }
+  }
+
+  /**
+   * 启动新的工作线程
+   */
+  private spawn(): PooledWorker {
+    const workerData: JsdomWorkerData = { logging: getLoggerOptions() };
+    const worker = new Worker(resolveWorkerScript(), { workerData });
+    const pooled: PooledWorker = { worker };
+
+    worker.on('message', (response: JsdomWorkerResponse) => {
+      const current = pooled.current;
+      if (!current || current.id !== response.id) {
+        return;
+      }
+      clearTimeout(current.timer);
+      pooled.current = undefined;
+      // 空闲线程不阻止进程退出
+      worker.unref();
+
+      if (response.success) {
+        current.resolve(response.result);
+      } else {
+        current.reject(this.toJobError(current.job, response));
+      }
+      this.dispatch();
+    });
+
+    worker.on('error', (error) => {
+      log.error('JSDOM工作线程崩溃', errorFields(error));
+      this.discard(pooled, error);
+    });
+
+    worker.on('exit', (code) => {
+      if (this.workers.includes(pooled)) {
+        this.discard(pooled, new Error(`JSDOM工作线程意外退出（退出码 ${code}）`));
+      }
+    });
+
+    this.workers.push(pooled);
+    return pooled;
+  }
+
+  /**
+   * 移除并结束线程，拒绝其当前任务，再用新线程继续处理排队的任务
+   */
+  private discard(pooled: PooledWorker, error: Error): void {
+    const index = this.workers.indexOf(pooled);
+    if (index === -1) {
+      return;
+    }
+    this.workers.splice(index, 1);
+
+    const current = pooled.current;
+    pooled.current = undefined;
+    if (current) {
+      clearTimeout(current.timer);
+      current.reject(error);
+    }
+
+    pooled.worker.terminate().catch(() => {});
+    if (!this.closed) {
+      this.dispatch();
+    }
+  }
+}
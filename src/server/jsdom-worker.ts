@@ -0,0 +1,119 @@
+/**
+ * JSDOM渲染工作线程
+ * 每个工作线程拥有独立的JSDOM窗口和Mermaid实例，一次只处理一个任务，
+ * 因此设置全局 window/document 和调用 mermaid.initialize 不会影响其他请求
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { JSDOM } from 'jsdom';
+import type { JsdomWorkerData, JsdomWorkerRequest, JsdomWorkerResponse } from './jsdom-worker-pool.js';
+import { extractParseErrorDetails } from './syntax-diagnostics.js';
+import { configureLogger, createLogger, errorFields } from './logger.js';
+
+// 使用主线程的日志级别和格式
+configureLogger((workerData as JsdomWorkerData | null)?.logging ?? {});
+
+const log = createLogger('jsdom-worker');
+
+const dom = new JSDOM('<!DOCTYPE html><html><body><div id="mermaid-container"></div></body></html>', {
+  pretendToBeVisual: true
+});
+const window = dom.window as any;
+
+// Mermaid和DOMPurify在加载时读取全局window，必须先设置全局变量再导入
+(globalThis as any).window = window;
+(globalThis as any).document = window.document;
+
+const { default: createDOMPurify } = await import('dompurify');
+try {
+  const DOMPurify = createDOMPurify(window);
+  (globalThis as any).DOMPurify = DOMPurify;
+  window.DOMPurify = DOMPurify;
+} catch (error) {
+  // DOMPurify设置失败也没关系，antiscript模式不依赖它
+  log.warn('DOMPurify设置失败，但继续使用antiscript模式', errorFields(error));
+}
+
+const { default: mermaid } = await import('mermaid');
+
+// 验证使用固定配置（使用antiscript避免DOMPurify）
+const VALIDATE_CONFIG = {
+  startOnLoad: false,
+  theme: 'default',
+  securityLevel: 'antiscript',
+  suppressErrorRendering: false
+} as const;
+
+let renderCount = 0;
+
+/**
+ * 清理上一次渲染留下的节点
+ */
+function resetDocument(): void {
+  const body = window.document.body;
+  for (const child of Array.from(body.children) as Element[]) {
+    if (child.id !== 'mermaid-container') {
+      child.remove();
+    }
+  }
+  const container = window.document.getElementById('mermaid-container');
+  if (container) {
+    container.innerHTML = '';
+  }
+}
+
+/**
+ * 使用Mermaid注册的检测器识别图表类型，无法识别时返回 undefined
+ */
+function detectType(code: string): string | undefined {
+  try {
+    return mermaid.detectType(code);
+  } catch (error) {
+    if (error instanceof Error && error.name === 'UnknownDiagramError') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 执行单个任务
+ */
+async function runJob(request: JsdomWorkerRequest): Promise<string | undefined> {
+  try {
+    if (request.type === 'render') {
+      // 初始化Mermaid，与Puppeteer使用同一份配置
+      mermaid.initialize(request.config);
+      const { svg } = await mermaid.render(`mermaid-diagram-${Date.now()}-${++renderCount}`, request.code);
+      if (!svg) {
+        throw new Error('JSDOM渲染失败：SVG为空');
+      }
+      return svg;
+    }
+
+    mermaid.initialize(VALIDATE_CONFIG);
+    if (request.type === 'detect') {
+      return detectType(request.code);
+    }
+    await mermaid.parse(request.code);
+    return undefined;
+  } finally {
+    resetDocument();
+  }
+}
+
+parentPort!.on('message', async (request: JsdomWorkerRequest) => {
+  let response: JsdomWorkerResponse;
+  try {
+    response = { id: request.id, success: true, result: await runJob(request) };
+  } catch (error) {
+    response = {
+      id: request.id,
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      // 语法错误附带位置信息，由主线程生成诊断
+      ...(request.type === 'parse' ? { details: extractParseErrorDetails(error) } : {})
+    };
+  }
+  parentPort!.postMessage(response);
+});
@@ -0,0 +1,194 @@
+/**
+ * 日志模块
+ * 分级（error/warn/info/debug）的结构化日志，支持JSON和易读两种格式，只写入stderr以保持stdio传输的stdout干净；
+ * 通过 AsyncLocalStorage 传递请求上下文，同一次工具调用或HTTP请求（包括各渲染器的降级尝试）的日志带有相同的关联ID；
+ * 默认隐藏日志字段中的图表源码
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
+
+export type LogFormat = 'json' | 'pretty';
+
+export type LogFields = Record<string, unknown>;
+
+export const LOG_LEVELS: LogLevel[] = ['error', 'warn', 'info', 'debug'];
+
+/**
+ * 日志配置
+ */
+export interface LoggerOptions {
+  level: LogLevel;
+  format: LogFormat;
+  /** 隐藏图表源码字段，错误信息只保留第一行（语法错误的后续行包含源码片段） */
+  redactSource: boolean;
+}
+
+/**
+ * 包含图表源码的字段名
+ */
+const SOURCE_FIELDS = new Set(['mermaidCode', 'code', 'source', 'snippet', 'svg']);
+
+const LEVEL_LABELS: Record<LogLevel, string> = {
+  error: 'ERROR',
+  warn: 'WARN ',
+  info: 'INFO ',
+  debug: 'DEBUG'
+};
+
+const contextStorage = new AsyncLocalStorage<LogFields>();
+
+let options: LoggerOptions = readOptionsFromEnv();
+
+export class Logger {
+  constructor(private component: string, private fields: LogFields = {}) {}
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  /**
+   * 带固定字段的子日志器
+   */
+  child(fields: LogFields): Logger {
+    return new Logger(this.component, { ...this.fields, ...fields });
+  }
+
+  /**
+   * 是否会输出该级别的日志（用于跳过开销较大的字段计算）
+   */
+  isEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf(options.level);
+  }
+
+  private log(level: LogLevel, message: string, fields?: LogFields): void {
+    if (!this.isEnabled(level)) {
+      return;
+    }
+
+    const entry: LogFields = {
+      time: new Date().toISOString(),
+      level,
+      component: this.component,
+      msg: message,
+      ...contextStorage.getStore(),
+      ...this.fields,
+      ...fields
+    };
+    for (const [key, value] of Object.entries(entry)) {
+      entry[key] = prepareValue(key, value);
+    }
+
+    process.stderr.write(`${options.format === 'json' ? formatJson(entry) : formatPretty(entry)}\n`);
+  }
+}
+
+/**
+ * 创建模块的日志器
+ */
+export function createLogger(component: string): Logger {
+  return new Logger(component);
+}
+
+/**
+ * 覆盖日志配置（未设置的项保持不变）
+ */
+export function configureLogger(overrides: Partial<LoggerOptions>): void {
+  options = { ...options, ...overrides };
+}
+
+/**
+ * 当前的日志配置
+ */
+export function getLoggerOptions(): LoggerOptions {
+  return { ...options };
+}
+
+/**
+ * 在日志上下文中执行：回调及其发起的所有异步操作的日志都带有这些字段（如关联ID）
+ */
+export function withLogContext<T>(fields: LogFields, callback: () => T): T {
+  return contextStorage.run({ ...contextStorage.getStore(), ...fields }, callback);
+}
+
+/**
+ * 生成关联ID
+ */
+export function createRequestId(): string {
+  return randomUUID().slice(0, 8);
+}
+
+/**
+ * 将错误转换为日志字段（不包含堆栈，debug级别除外）
+ */
+export function errorFields(error: unknown): LogFields {
+  if (!(error instanceof Error)) {
+    return { error: String(error) };
+  }
+  return {
+    error: error.message,
+    errorName: error.name,
+    ...(options.level === 'debug' && error.stack ? { stack: error.stack } : {})
+  };
+}
+
+function readOptionsFromEnv(): LoggerOptions {
+  const level = (process.env.LOG_LEVEL || 'info').toLowerCase() as LogLevel;
+  const format = (process.env.LOG_FORMAT || 'pretty').toLowerCase() as LogFormat;
+  return {
+    level: LOG_LEVELS.includes(level) ? level : 'info',
+    format: format === 'json' ? 'json' : 'pretty',
+    redactSource: process.env.LOG_REDACT_SOURCE !== 'false'
+  };
+}
+
+/**
+ * 隐藏源码字段，截断错误信息
+ */
+function prepareValue(key: string, value: unknown): unknown {
+  if (!options.redactSource) {
+    return value;
+  }
+  if (SOURCE_FIELDS.has(key) && typeof value === 'string') {
+    return `[已隐藏 ${Buffer.byteLength(value)} 字节]`;
+  }
+  if (key === 'error' && typeof value === 'string') {
+    const firstLine = value.split('\n', 1)[0]!;
+    return firstLine.length < value.length ? `${firstLine} …` : value;
+  }
+  if (key === 'stack' && typeof value === 'string') {
+    // 堆栈的开头是错误信息，只保留调用位置
+    return value.split('\n').filter((line) => line.trimStart().startsWith('at ')).join('\n');
+  }
+  return value;
+}
+
+function formatJson(entry: LogFields): string {
+  try {
+    return JSON.stringify(entry);
+  } catch {
+    return JSON.stringify({ time: entry.time, level: entry.level, component: entry.component, msg: entry.msg });
+  }
+}
+
+function formatPretty(entry: LogFields): string {
+  const { time, level, component, msg, ...fields } = entry;
+  const details = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${typeof value === 'string' && !/\s/.test(value) ? value : JSON.stringify(value)}`);
+  return [time, LEVEL_LABELS[level as LogLevel], `[${component}]`, msg, ...details].join(' ');
+}
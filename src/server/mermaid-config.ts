@@ -0,0 +1,178 @@
+/**
+ * Mermaid配置模块
+ * 校验调用方传入的Mermaid配置，并生成Puppeteer和JSDOM共用的初始化配置
+ */
+
+import { z } from 'zod';
+
+/**
+ * 调用方和图表内的 %%{init}%% 指令、YAML frontmatter 都不能修改的配置项
+ */
+const SECURE_KEYS = [
+  'secure',
+  'securityLevel',
+  'startOnLoad',
+  'maxTextSize',
+  'maxEdges',
+  'suppressErrorRendering',
+  'dompurifyConfig'
+];
+
+const primitiveValue = z.union([z.string().max(500), z.number().finite(), z.boolean()]);
+
+// 会被写入SVG样式表的值，禁止跳出style或加载外部资源
+const cssValue = (maxLength: number) => z.string().max(maxLength).refine(
+  (value) => !/[<>]|url\s*\(|@import|expression\s*\(/i.test(value),
+  '不能包含 <、>、url()、@import 或 expression()'
+);
+
+// 与Mermaid对主题变量的过滤规则保持一致
+const themeVariableValue = z.union([
+  z.string().max(200).regex(/^[\d "#%(),.;A-Za-z-]+$/, '只能包含颜色、数字和字体名称等简单值'),
+  z.number().finite(),
+  z.boolean()
+]);
+
+// 图表专属配置：已知字段有类型约束，其余字段只允许简单值
+const diagramConfig = z.record(z.union([primitiveValue, z.record(primitiveValue)]));
+
+const flowchartConfig = z.object({
+  curve: z.enum([
+    'basis', 'bumpX', 'bumpY', 'cardinal', 'catmullRom', 'linear',
+    'monotoneX', 'monotoneY', 'natural', 'step', 'stepAfter', 'stepBefore'
+  ]),
+  htmlLabels: z.boolean(),
+  nodeSpacing: z.number().min(0).max(1000),
+  rankSpacing: z.number().min(0).max(1000),
+  padding: z.number().min(0).max(1000),
+  diagramPadding: z.number().min(0).max(1000),
+  wrappingWidth: z.number().min(0).max(5000),
+  useMaxWidth: z.boolean(),
+  titleTopMargin: z.number().min(0).max(1000),
+  defaultRenderer: z.enum(['dagre-d3', 'dagre-wrapper'])
+}).partial().catchall(z.union([primitiveValue, z.record(primitiveValue)]));
+
+const sequenceConfig = z.object({
+  mirrorActors: z.boolean(),
+  showSequenceNumbers: z.boolean(),
+  hideUnusedParticipants: z.boolean(),
+  rightAngles: z.boolean(),
+  wrap: z.boolean(),
+  useMaxWidth: z.boolean(),
+  actorMargin: z.number().min(0).max(1000),
+  messageAlign: z.enum(['left', 'center', 'right']),
+  noteAlign: z.enum(['left', 'center', 'right']),
+  actorFontFamily: cssValue(200),
+  noteFontFamily: cssValue(200),
+  messageFontFamily: cssValue(200)
+}).partial().catchall(primitiveValue);
+
+/**
+ * 调用方可传入的Mermaid配置
+ */
+export const MermaidConfigSchema = z.object({
+  themeVariables: z.record(themeVariableValue),
+  themeCSS: cssValue(10000),
+  fontFamily: cssValue(200),
+  altFontFamily: cssValue(200),
+  fontSize: z.number().min(1).max(100),
+  darkMode: z.boolean(),
+  look: z.enum(['classic', 'handDrawn']),
+  handDrawnSeed: z.number().int().min(0),
+  htmlLabels: z.boolean(),
+  wrap: z.boolean(),
+  markdownAutoWrap: z.boolean(),
+  deterministicIds: z.boolean(),
+  deterministicIDSeed: z.string().max(100),
+  flowchart: flowchartConfig,
+  sequence: sequenceConfig,
+  gantt: diagramConfig,
+  journey: diagramConfig,
+  timeline: diagramConfig,
+  class: diagramConfig,
+  state: diagramConfig,
+  er: diagramConfig,
+  pie: diagramConfig,
+  quadrantChart: diagramConfig,
+  xyChart: diagramConfig,
+  requirement: diagramConfig,
+  mindmap: diagramConfig,
+  kanban: diagramConfig,
+  gitGraph: diagramConfig,
+  c4: diagramConfig,
+  sankey: diagramConfig,
+  block: diagramConfig,
+  packet: diagramConfig,
+  architecture: diagramConfig,
+  radar: diagramConfig
+}).partial().strict();
+
+export type MermaidUserConfig = z.infer<typeof MermaidConfigSchema>;
+
+/**
+ * Mermaid配置校验函数
+ */
+export function validateMermaidConfig(config: unknown): string | null {
+  if (config === undefined) {
+    return null;
+  }
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return 'config 必须是对象';
+  }
+
+  // 先给出明确的提示，再交给schema校验其余字段
+  for (const key of Object.keys(config)) {
+    if (SECURE_KEYS.includes(key)) {
+      return `config 不允许覆盖 ${key}`;
+    }
+    if (key === 'theme') {
+      return 'config 不能包含 theme，请使用 theme 参数';
+    }
+  }
+
+  const result = MermaidConfigSchema.safeParse(config);
+  if (!result.success) {
+    const issue = result.error.issues[0]!;
+    const field = ['config', ...issue.path].join('.');
+    return issue.code === 'unrecognized_keys'
+      ? `${field} 包含不支持的配置项: ${issue.keys.join(', ')}`
+      : `${field} ${issue.message}`;
+  }
+
+  return null;
+}
+
+/**
+ * 合并默认配置和请求中的配置：对象逐层合并，其余值以请求中的为准
+ */
+export function mergeMermaidConfig(defaults: MermaidUserConfig, config: MermaidUserConfig = {}): MermaidUserConfig {
+  return mergeObjects(defaults, config) as MermaidUserConfig;
+}
+
+/**
+ * 生成传给 mermaid.initialize 的完整配置
+ * Puppeteer和JSDOM使用同一份配置，图表内的 %%{init}%% 指令和 frontmatter 由Mermaid在两端以相同方式合并，
+ * secure 列表中的配置项不会被指令覆盖
+ */
+export function buildMermaidConfig(theme: string, config: MermaidUserConfig = {}): Record<string, unknown> {
+  return {
+    ...structuredClone(config),
+    startOnLoad: false,
+    theme,
+    securityLevel: 'antiscript',
+    secure: SECURE_KEYS
+  };
+}
+
+function mergeObjects(base: Record<string, unknown>, override: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    const current = result[key];
+    result[key] = isPlainObject(current) && isPlainObject(value) ? mergeObjects(current, value) : value;
+  }
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
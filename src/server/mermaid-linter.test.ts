@@ -0,0 +1,146 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fixMermaid, lintMermaid } from './mermaid-linter.js';
+
+/** 只比较修复后的代码 */
+function fixed(code: string): string {
+  return fixMermaid(code).code;
+}
+
+describe('lintMermaid', () => {
+  it('报告规则、位置和建议的替换', () => {
+    const warnings = lintMermaid('graph\n  A[调用 foo()] -> end');
+
+    assert.deepEqual(
+      warnings.map(({ rule, line, column, found, expected }) => ({ rule, line, column, found, expected })),
+      [
+        { rule: 'missing-direction', line: 1, column: 6, found: '', expected: [' TD'] },
+        { rule: 'unquoted-special-chars', line: 2, column: 5, found: '调用 foo()', expected: ['"调用 foo()"'] },
+        { rule: 'flowchart-arrow', line: 2, column: 15, found: '->', expected: ['-->'] },
+        { rule: 'reserved-word-id', line: 2, column: 18, found: 'end', expected: ['End'] }
+      ]
+    );
+    assert.ok(warnings.every((warning) => warning.severity === 'warning' && warning.source === 'lint' && warning.fixable));
+  });
+
+  it('按源码位置排列问题', () => {
+    const warnings = lintMermaid('graph TD\n  A -> end\n  B【x】 -> C');
+    assert.deepEqual(
+      warnings.map(({ line, column }) => [line, column]),
+      [[2, 5], [2, 8], [3, 4], [3, 6], [3, 8]]
+    );
+  });
+
+  it('不修改引号中的文本', () => {
+    const code = 'sequenceDiagram\n  Alice->>"Bob：x": hi';
+    assert.deepEqual(lintMermaid(code), []);
+    assert.equal(fixed(code), code);
+  });
+
+  it('正确的代码没有问题', () => {
+    assert.deepEqual(lintMermaid('flowchart LR\n  A["调用 foo()"] -->|是| B{判断}\n  B -.-> C\n  C ==> D'), []);
+    assert.deepEqual(lintMermaid('sequenceDiagram\n  Alice->>Bob: 你好\n  Bob-->>Alice: 收到 -> 好的'), []);
+  });
+
+  it('只检查流程图和序列图', () => {
+    assert.deepEqual(lintMermaid('pie\n  "A（甲）" : 1'), []);
+    assert.deepEqual(lintMermaid(''), []);
+  });
+
+  it('跳过frontmatter、指令和注释定位声明行', () => {
+    const warnings = lintMermaid('---\ntitle: 示例\n---\n%%{init: {"theme": "dark"}}%%\n%% 注释\ngraph\n  A --> B');
+    assert.deepEqual(warnings.map(({ rule, line }) => ({ rule, line })), [{ rule: 'missing-direction', line: 6 }]);
+  });
+});
+
+describe('fixMermaid', () => {
+  it('补充缺少的方向', () => {
+    assert.equal(fixed('flowchart\n  A --> B'), 'flowchart TD\n  A --> B');
+  });
+
+  it('为包含括号的标签加引号', () => {
+    assert.equal(fixed('graph TD\n  A[调用 foo()] --> B{x [y]}'), 'graph TD\n  A["调用 foo()"] --> B{"x [y]"}');
+    assert.equal(fixed('graph TD\n  A -->|f(x) 成功| B'), 'graph TD\n  A -->|"f(x) 成功"| B');
+    assert.equal(fixed('graph TD\n  A[(数据库 (主))]'), 'graph TD\n  A[("数据库 (主)")]');
+  });
+
+  it('不为已包含双引号的标签再加引号', () => {
+    const code = 'graph TD\n  A[say "hi" (x)] --> B';
+    assert.deepEqual(lintMermaid(code), []);
+    assert.equal(fixed(code), code);
+  });
+
+  it('保留Mermaid 11的 @{} 形状和元数据块', () => {
+    const code = [
+      'flowchart TD',
+      '  A@{ shape: rect, label: "x(y)" } --> B@{ shape: diamond, label: "判断（是否）" }',
+      '  C@{',
+      '    shape: rounded',
+      '    label: "f(x) -> end"',
+      '  }',
+      '  A e1@--> C',
+      '  e1@{ animate: true }'
+    ].join('\n');
+    assert.deepEqual(lintMermaid(code), []);
+    assert.equal(fixed(code), code);
+    assert.equal(fixed('flowchart TD\n  A@{ label: "x(y)" } -> B[f(x)]'), 'flowchart TD\n  A@{ label: "x(y)" } --> B["f(x)"]');
+  });
+
+  it('将中文弯引号和全角括号改为英文符号', () => {
+    assert.equal(fixed('graph TD\n  A[“你好”] --> B【结束】'), 'graph TD\n  A["你好"] --> B[结束]');
+  });
+
+  it('多次检查修复全角括号改为半角后暴露的问题', () => {
+    assert.equal(fixed('graph TD\n  A（调用 foo()）'), 'graph TD\n  A("调用 foo()")');
+  });
+
+  it('重命名作为节点ID的 end，不改动子图结束标记和已有节点', () => {
+    assert.equal(
+      fixed('graph TD\n  subgraph S\n    start --> end\n  end\n  End --> X'),
+      'graph TD\n  subgraph S\n    start --> END\n  end\n  End --> X'
+    );
+  });
+
+  it('将流程图中的 -> 改为 -->', () => {
+    assert.equal(fixed('graph TD\n  A -> B\n  B --> C\n  C -.-> D'), 'graph TD\n  A --> B\n  B --> C\n  C -.-> D');
+  });
+
+  it('为序列图中没有箭头的连线补充箭头，不改动消息文本', () => {
+    assert.equal(
+      fixed('sequenceDiagram\n  Alice->Bob: a -> b\n  Bob-->Alice：好的\n  Alice-xBob: 失败'),
+      'sequenceDiagram\n  Alice->>Bob: a -> b\n  Bob-->>Alice:好的\n  Alice-xBob: 失败'
+    );
+  });
+
+  it('emoji之前的内容不影响全角标点的修复位置', () => {
+    assert.equal(fixed('sequenceDiagram\n  Alice😀->>Bob：hi'), 'sequenceDiagram\n  Alice😀->>Bob:hi');
+    assert.equal(fixed('graph TD\n  A[🚀 发布] --> B【完成】'), 'graph TD\n  A[🚀 发布] --> B[完成]');
+  });
+
+  it('修复不增删行，返回基于修复前代码的问题和行级差异', () => {
+    const result = fixMermaid('graph TD\n  A --> B\n  B -> C');
+
+    assert.equal(result.changed, true);
+    assert.deepEqual(result.fixes.map(({ rule, line }) => ({ rule, line })), [{ rule: 'flowchart-arrow', line: 3 }]);
+    assert.equal(result.diff, '--- 原始代码\n+++ 修复后\n@@ -3 +3 @@\n-  B -> C\n+  B --> C');
+  });
+
+  it('多轮修复的问题按源码位置排列', () => {
+    // 全角 － 改为 - 后第二轮才发现 ->，排在第一轮修复的 end 之前
+    const result = fixMermaid('graph TD\n  A －> end');
+    assert.equal(result.code, 'graph TD\n  A --> End');
+    assert.deepEqual(
+      result.fixes.map(({ rule, column }) => ({ rule, column })),
+      [
+        { rule: 'fullwidth-punctuation', column: 5 },
+        { rule: 'flowchart-arrow', column: 5 },
+        { rule: 'reserved-word-id', column: 8 }
+      ]
+    );
+  });
+
+  it('没有问题时不修改代码', () => {
+    const code = 'graph TD\n  A --> B';
+    assert.deepEqual(fixMermaid(code), { code, changed: false, fixes: [], diff: '' });
+  });
+});
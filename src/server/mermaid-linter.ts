@@ -0,0 +1,569 @@
+/**
+ * Mermaid代码检查模块
+ * 基于规则检查AI生成的流程图和序列图中的常见错误，并提供自动修复
+ * 所有修复都在行内进行，修复前后行号不变
+ */
+
+import { SyntaxDiagnostic, createDiagnostic } from './syntax-diagnostics.js';
+import { detectDiagramType } from './diagram-types.js';
+
+/**
+ * 检查规则及说明
+ */
+export const LINT_RULES = {
+  'missing-direction': 'graph/flowchart 后缺少方向（如 TD、LR）',
+  'fullwidth-punctuation': '语法位置使用了中文全角标点',
+  'smart-quotes': '标签使用了中文弯引号而不是英文双引号',
+  'unquoted-special-chars': '标签中包含括号等特殊字符但没有用双引号包裹',
+  'reserved-word-id': '使用保留字 end 作为节点ID',
+  'flowchart-arrow': '流程图中使用了 -> 而不是 -->',
+  'sequence-arrow': '序列图中的 -> 或 --> 没有箭头，通常应为 ->> 或 -->>'
+} as const;
+
+export type LintRuleId = keyof typeof LINT_RULES;
+
+/**
+ * 检查结果（与语法诊断格式相同）
+ */
+export interface LintWarning extends SyntaxDiagnostic {
+  rule: LintRuleId;
+  fixable: boolean;
+}
+
+/**
+ * 修复结果
+ */
+export interface FixResult {
+  code: string;
+  changed: boolean;
+  /** 已修复的问题（基于修复前的代码定位） */
+  fixes: LintWarning[];
+  /** 修复前后的行级差异 */
+  diff: string;
+}
+
+/**
+ * 单行内的一处修改
+ */
+interface LineEdit {
+  line: number;
+  start: number;
+  end: number;
+  /** 规则要替换的原文，与该位置的实际文本不一致时放弃修改 */
+  original: string;
+  replacement: string;
+  rule: LintRuleId;
+  message: string;
+}
+
+/**
+ * 流程图一行中的片段：代码或标签（标签记录内部文本的范围）
+ */
+interface LineSegment {
+  start: number;
+  end: number;
+  label?: { innerStart: number; innerEnd: number };
+}
+
+const FULLWIDTH_PUNCTUATION: Record<string, string> = {
+  '【': '[',
+  '】': ']',
+  '（': '(',
+  '）': ')',
+  '｛': '{',
+  '｝': '}',
+  '；': ';',
+  '：': ':',
+  '，': ',',
+  '｜': '|',
+  '－': '-',
+  '＞': '>',
+  '＜': '<'
+};
+
+const BRACKET_PAIRS: Record<string, string> = {
+  '[': ']',
+  '(': ')',
+  '{': '}',
+  '【': '】',
+  '（': '）',
+  '｛': '｝'
+};
+
+const MAX_FIX_PASSES = 5;
+
+/**
+ * 检查代码，返回发现的问题
+ */
+export function lintMermaid(code: string): LintWarning[] {
+  const lines = code.split('\n');
+  return collectEdits(lines).sort(compareEdits).map((edit) => toWarning(code, lines, edit));
+}
+
+/**
+ * 自动修复代码中可修复的问题
+ * 一次修复可能暴露新的问题（如全角括号改为半角后标签需要加引号），因此多次检查直到没有修改
+ */
+export function fixMermaid(code: string): FixResult {
+  const originalLines = code.split('\n');
+  let lines = [...originalLines];
+  const fixes: LintWarning[] = [];
+
+  for (let pass = 0; pass < MAX_FIX_PASSES; pass++) {
+    const edits = selectNonOverlapping(collectEdits(lines));
+    if (edits.length === 0) {
+      break;
+    }
+
+    const current = lines.join('\n');
+    for (const edit of edits) {
+      fixes.push(toWarning(current, lines, edit));
+    }
+    lines = applyEdits(lines, edits);
+  }
+
+  // 修复不增删行，各轮的问题可以统一按源码位置排序
+  fixes.sort((a, b) => a.line - b.line || a.column - b.column);
+
+  const fixed = lines.join('\n');
+  return {
+    code: fixed,
+    changed: fixed !== code,
+    fixes,
+    diff: createLineDiff(originalLines, lines)
+  };
+}
+
+/**
+ * 生成修复前后的行级差异（修复不增删行，逐行比较即可）
+ */
+function createLineDiff(before: string[], after: string[]): string {
+  const hunks: string[] = [];
+  for (const [index, line] of before.entries()) {
+    if (line !== after[index]) {
+      hunks.push(`@@ -${index + 1} +${index + 1} @@\n-${line}\n+${after[index]}`);
+    }
+  }
+  return hunks.length > 0 ? `--- 原始代码\n+++ 修复后\n${hunks.join('\n')}` : '';
+}
+
+/**
+ * 按规则收集所有修改，只保留不会改变图表含义的修改
+ */
+function collectEdits(lines: string[]): LineEdit[] {
+  const header = findHeader(lines);
+  if (!header) {
+    return [];
+  }
+
+  let edits: LineEdit[];
+  switch (detectDiagramType(lines.join('\n')).id) {
+    case 'flowchart':
+      edits = lintFlowchart(lines, header.index, header.contentLines);
+      break;
+    case 'sequence':
+      edits = lintSequence(lines, header.contentLines);
+      break;
+    default:
+      edits = [];
+  }
+  return edits.filter((edit) => isIntendedEdit(lines[edit.line]!, edit));
+}
+
+/**
+ * 修改是否只涉及规则预期的文本：该位置必须是规则看到的原文，且不能触及引号中的文本或 @{} 数据块。
+ * 定位错误的修改得到的代码往往仍能通过语法验证，但图表含义已经改变，因此在应用前拦截
+ */
+function isIntendedEdit(line: string, edit: LineEdit): boolean {
+  if (line.slice(edit.start, edit.end) !== edit.original) {
+    return false;
+  }
+  return !protectedRanges(line).some(([start, end]) => edit.start < end && start < edit.end);
+}
+
+/**
+ * 行内不允许修改的范围：双引号包裹的文本和 @{ ... } 数据块（未闭合时到行尾）
+ */
+function protectedRanges(line: string): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  for (let index = 0; index < line.length; index++) {
+    let close = -1;
+    if (line[index] === '"') {
+      close = line.indexOf('"', index + 1);
+    } else if (line[index] === '@' && line[index + 1] === '{') {
+      close = findShapeDataEnd(line, index + 2);
+    } else {
+      continue;
+    }
+    const end = close === -1 ? line.length : close + 1;
+    ranges.push([index, end]);
+    index = end - 1;
+  }
+  return ranges;
+}
+
+/**
+ * 按源码位置排序
+ */
+function compareEdits(a: LineEdit, b: LineEdit): number {
+  return a.line - b.line || a.start - b.start;
+}
+
+/**
+ * 找到图表声明行，跳过frontmatter、%%{init}%%指令、注释和空行
+ */
+function findHeader(lines: string[]): { index: number; contentLines: number[] } | undefined {
+  let index = 0;
+  if (lines[0]?.trim() === '---') {
+    const closing = lines.findIndex((line, lineIndex) => lineIndex > 0 && line.trim() === '---');
+    if (closing === -1) {
+      return undefined;
+    }
+    index = closing + 1;
+  }
+
+  const contentLines: number[] = [];
+  for (; index < lines.length; index++) {
+    const trimmed = lines[index]!.trim();
+    if (trimmed === '' || trimmed.startsWith('%%')) {
+      continue;
+    }
+    contentLines.push(index);
+  }
+
+  const [headerIndex] = contentLines;
+  return headerIndex === undefined ? undefined : { index: headerIndex, contentLines: contentLines.slice(1) };
+}
+
+/**
+ * 流程图规则
+ */
+function lintFlowchart(lines: string[], headerIndex: number, contentLines: number[]): LineEdit[] {
+  const edits: LineEdit[] = [];
+
+  const header = /^(\s*(?:graph|flowchart))(\s*;?\s*)$/.exec(lines[headerIndex]!);
+  if (header) {
+    edits.push({
+      line: headerIndex,
+      start: header[1]!.length,
+      end: lines[headerIndex]!.length,
+      original: header[2]!,
+      replacement: ' TD',
+      rule: 'missing-direction',
+      message: `${header[1]!.trim()} 后缺少方向，已默认使用 TD（从上到下）`
+    });
+  }
+
+  // 保留字 end 改名时避开已有的节点ID
+  const code = contentLines.map((index) => lines[index]).join('\n');
+  const endReplacement = ['End', 'END', 'end_node'].find((name) => !new RegExp(`(?<![\\w-])${name}(?![\\w-])`).test(code))!;
+
+  let inShapeData = false;
+  for (const lineIndex of contentLines) {
+    const line = lines[lineIndex]!;
+    const scanned = scanFlowchartLine(line, inShapeData);
+    const segments = scanned.segments;
+    inShapeData = scanned.inShapeData;
+
+    for (const segment of segments) {
+      if (!segment.label) {
+        const text = line.slice(segment.start, segment.end);
+        edits.push(...fullwidthEdits(lineIndex, text, segment.start));
+
+        // 单独一行的 end 是子图结束标记
+        if (line.trim() !== 'end') {
+          for (const match of text.matchAll(/(?<![\w-])end(?![\w-])/g)) {
+            edits.push({
+              line: lineIndex,
+              start: segment.start + match.index!,
+              end: segment.start + match.index! + 3,
+              original: 'end',
+              replacement: endReplacement,
+              rule: 'reserved-word-id',
+              message: `end 是流程图保留字，不能作为节点ID，已改为 ${endReplacement}`
+            });
+          }
+        }
+
+        for (const match of text.matchAll(/(?<![-=.<>])->(?!>)/g)) {
+          edits.push({
+            line: lineIndex,
+            start: segment.start + match.index!,
+            end: segment.start + match.index! + 2,
+            original: '->',
+            replacement: '-->',
+            rule: 'flowchart-arrow',
+            message: '流程图的连线应使用 -->，-> 会导致语法错误'
+          });
+        }
+        continue;
+      }
+
+      // 标签两侧的全角括号同样需要改为半角
+      const { innerStart, innerEnd } = segment.label;
+      edits.push(...fullwidthEdits(lineIndex, line.slice(segment.start, innerStart), segment.start));
+      edits.push(...fullwidthEdits(lineIndex, line.slice(innerEnd, segment.end), innerEnd));
+
+      const inner = line.slice(innerStart, innerEnd);
+      if (inner.length >= 2 && /^[“”]/.test(inner) && /[“”]$/.test(inner)) {
+        edits.push(
+          { line: lineIndex, start: innerStart, end: innerStart + 1, original: inner[0]!, replacement: '"', rule: 'smart-quotes', message: '标签应使用英文双引号 " 包裹' },
+          { line: lineIndex, start: innerEnd - 1, end: innerEnd, original: inner[inner.length - 1]!, replacement: '"', rule: 'smart-quotes', message: '标签应使用英文双引号 " 包裹' }
+        );
+      } else if (!inner.includes('"') && /[()[\]{}]/.test(inner)) {
+        // 已包含双引号的文本无法安全地再加一层引号，保持原样
+        edits.push({
+          line: lineIndex,
+          start: innerStart,
+          end: innerEnd,
+          original: inner,
+          replacement: `"${inner}"`,
+          rule: 'unquoted-special-chars',
+          message: '标签包含括号，需要用双引号包裹'
+        });
+      }
+    }
+  }
+
+  return edits;
+}
+
+/**
+ * 序列图规则：只检查消息行和注释行中冒号之前的部分，冒号之后是消息文本
+ */
+function lintSequence(lines: string[], contentLines: number[]): LineEdit[] {
+  const edits: LineEdit[] = [];
+
+  for (const lineIndex of contentLines) {
+    const line = lines[lineIndex]!;
+    const separator = line.search(/[:：]/);
+    const head = separator === -1 ? line : line.slice(0, separator);
+    const isMessage = /^\s*[^\s:：]+?\s*(?:<<)?-{1,2}(?:>>|>|x|\)|＞)/.test(head);
+    const isNote = /^\s*note\s/i.test(head);
+    if (!isMessage && !isNote) {
+      continue;
+    }
+
+    edits.push(...fullwidthEdits(lineIndex, separator === -1 ? head : line.slice(0, separator + 1), 0));
+
+    if (isMessage) {
+      for (const match of head.matchAll(/(?<![-<])(--?)>(?![>x)])/g)) {
+        edits.push({
+          line: lineIndex,
+          start: match.index!,
+          end: match.index! + match[0].length,
+          original: match[0],
+          replacement: `${match[1]}>>`,
+          rule: 'sequence-arrow',
+          message: `${match[0]} 画出的连线没有箭头，通常应使用 ${match[1]}>>`
+        });
+      }
+    }
+  }
+
+  return edits;
+}
+
+/**
+ * 全角标点修改
+ */
+function fullwidthEdits(line: number, text: string, offset: number): LineEdit[] {
+  const edits: LineEdit[] = [];
+  // 按UTF-16位置遍历（全角标点都是单个码元），与修改的 start/end 一致，emoji等代理对不会造成偏移
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index]!;
+    const replacement = FULLWIDTH_PUNCTUATION[char];
+    if (replacement) {
+      edits.push({
+        line,
+        start: offset + index,
+        end: offset + index + 1,
+        original: char,
+        replacement,
+        rule: 'fullwidth-punctuation',
+        message: `全角标点 ${char} 应改为 ${replacement}`
+      });
+    }
+  }
+  return edits;
+}
+
+/**
+ * 将流程图的一行拆分为代码和标签片段
+ * 标签包括 "..."、括号形状中的文本（如 [..]、(..)、{..}、[(..)]、((..))）和连线上的 |..|；
+ * Mermaid 11 的 @{ shape: ..., label: ... } 数据块（可跨行）不属于任何片段，不会被修改，
+ * inShapeData 表示该行从上一行未结束的数据块中开始
+ */
+function scanFlowchartLine(line: string, inShapeData = false): { segments: LineSegment[]; inShapeData: boolean } {
+  const segments: LineSegment[] = [];
+  let index = 0;
+  if (inShapeData) {
+    const close = findShapeDataEnd(line, 0);
+    if (close === -1) {
+      return { segments, inShapeData: true };
+    }
+    index = close + 1;
+  }
+  let codeStart = index;
+
+  const pushCode = (end: number) => {
+    if (end > codeStart) {
+      segments.push({ start: codeStart, end });
+    }
+  };
+
+  while (index < line.length) {
+    const char = line[index]!;
+
+    if (char === '@' && line[index + 1] === '{') {
+      pushCode(index);
+      const close = findShapeDataEnd(line, index + 2);
+      if (close === -1) {
+        return { segments, inShapeData: true };
+      }
+      index = codeStart = close + 1;
+      continue;
+    }
+
+    if (char === '"') {
+      const close = line.indexOf('"', index + 1);
+      const end = close === -1 ? line.length : close + 1;
+      pushCode(index);
+      segments.push({ start: index, end, label: { innerStart: index, innerEnd: end } });
+      index = codeStart = end;
+      continue;
+    }
+
+    if (char === '|') {
+      const close = line.indexOf('|', index + 1);
+      if (close !== -1) {
+        pushCode(index);
+        segments.push({ start: index, end: close + 1, label: { innerStart: index + 1, innerEnd: close } });
+        index = codeStart = close + 1;
+        continue;
+      }
+    }
+
+    const closeChar = BRACKET_PAIRS[char];
+    if (closeChar) {
+      const end = findClosingBracket(line, index, char, closeChar);
+      if (end !== -1) {
+        pushCode(index);
+        segments.push({ start: index, end: end + 1, label: labelRange(line, index, end) });
+        index = codeStart = end + 1;
+        continue;
+      }
+    }
+
+    index++;
+  }
+
+  pushCode(line.length);
+  return { segments, inShapeData: false };
+}
+
+/**
+ * 查找 @{ ... } 数据块的结束位置（跳过引号中的内容），未在本行结束时返回-1
+ */
+function findShapeDataEnd(line: string, start: number): number {
+  for (let index = start; index < line.length; index++) {
+    const char = line[index];
+    if (char === '"') {
+      const quoteEnd = line.indexOf('"', index + 1);
+      if (quoteEnd === -1) {
+        return -1;
+      }
+      index = quoteEnd;
+    } else if (char === '}') {
+      return index;
+    }
+  }
+  return -1;
+}
+
+/**
+ * 查找与开括号配对的闭括号（只计同类括号，跳过引号中的内容）
+ */
+function findClosingBracket(line: string, start: number, open: string, close: string): number {
+  let depth = 0;
+  for (let index = start; index < line.length; index++) {
+    const char = line[index];
+    if (char === '"') {
+      const quoteEnd = line.indexOf('"', index + 1);
+      if (quoteEnd === -1) {
+        return -1;
+      }
+      index = quoteEnd;
+    } else if (char === open) {
+      depth++;
+    } else if (char === close) {
+      depth--;
+      if (depth === 0) {
+        return index;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * 去掉形状括号（如 [( 和 )]）后得到标签文本的范围
+ */
+function labelRange(line: string, start: number, end: number): { innerStart: number; innerEnd: number } {
+  let openLength = 0;
+  while (start + openLength < end && BRACKET_PAIRS[line[start + openLength]!]) {
+    openLength++;
+  }
+
+  // 从最长的形状开始尝试，闭合部分需与开头逐个配对
+  for (let length = openLength; length > 1; length--) {
+    const opening = line.slice(start, start + length);
+    const expected = Array.from(opening).reverse().map((char) => BRACKET_PAIRS[char]).join('');
+    if (end - start + 1 >= length * 2 && line.slice(end - length + 1, end + 1) === expected) {
+      return { innerStart: start + length, innerEnd: end - length + 1 };
+    }
+  }
+  return { innerStart: start + 1, innerEnd: end };
+}
+
+/**
+ * 选出互不重叠的修改，先出现的规则优先
+ */
+function selectNonOverlapping(edits: LineEdit[]): LineEdit[] {
+  const selected: LineEdit[] = [];
+  for (const edit of edits) {
+    const overlaps = selected.some((other) => other.line === edit.line && edit.start < other.end && other.start < edit.end);
+    if (!overlaps) {
+      selected.push(edit);
+    }
+  }
+  return selected;
+}
+
+/**
+ * 应用修改（同一行内从后往前替换，避免偏移变化）
+ */
+function applyEdits(lines: string[], edits: LineEdit[]): string[] {
+  const result = [...lines];
+  const sorted = [...edits].sort((a, b) => a.line - b.line || b.start - a.start);
+  for (const edit of sorted) {
+    const line = result[edit.line]!;
+    result[edit.line] = line.slice(0, edit.start) + edit.replacement + line.slice(edit.end);
+  }
+  return result;
+}
+
+function toWarning(code: string, lines: string[], edit: LineEdit): LintWarning {
+  const lineOffset = lines.slice(0, edit.line).reduce((sum, line) => sum + line.length + 1, 0);
+  return {
+    ...createDiagnostic(code, lineOffset + edit.start, {
+      severity: 'warning',
+      message: edit.message,
+      expected: [edit.replacement],
+      found: lines[edit.line]!.slice(edit.start, edit.end),
+      source: 'lint'
+    }),
+    rule: edit.rule,
+    fixable: true
+  };
+}
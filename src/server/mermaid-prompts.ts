@@ -0,0 +1,242 @@
+/**
+ * MCP提示词模块
+ * 为常见的图表编写任务提供参数化提示词，内嵌对应图表类型的语法速查表，
+ * 并要求模型在渲染前调用 validate_mermaid_syntax 验证代码
+ */
+
+import { DiagramTypeId, detectDiagramType } from './diagram-types.js';
+
+/**
+ * 提示词参数
+ */
+export interface MermaidPromptArgument {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+/**
+ * 提示词定义（prompts/list 返回的内容）
+ */
+export interface MermaidPromptDefinition {
+  name: string;
+  description: string;
+  arguments: MermaidPromptArgument[];
+}
+
+/**
+ * prompts/get 返回的内容
+ */
+export interface MermaidPromptResult {
+  description: string;
+  messages: Array<{ role: 'user'; content: { type: 'text'; text: string } }>;
+}
+
+/**
+ * 各图表类型的语法速查表（示例均可通过Mermaid解析）
+ */
+const CHEAT_SHEETS: Partial<Record<DiagramTypeId, string>> = {
+  sequence: `## 序列图语法速查
+
+\`\`\`mermaid
+sequenceDiagram
+    autonumber
+    actor U as 用户
+    participant C as 客户端
+    participant S as 订单服务
+    U->>C: 提交订单
+    C->>+S: POST /orders
+    alt 库存充足
+        S-->>C: 201 Created
+    else 库存不足
+        S-->>C: 409 Conflict
+    end
+    S-->>-C: 推送状态
+    Note over C,S: 请求超时为30秒
+\`\`\`
+
+- 第一行必须是 \`sequenceDiagram\`
+- 参与者：\`participant 别名 as 显示名\`（人物用 \`actor\`），别名只用字母、数字和下划线
+- 消息：\`A->>B: 文本\`（同步请求）、\`A-->>B: 文本\`（响应）、\`A-)B: 文本\`（异步）、\`A-xB: 文本\`（失败）；不要使用 \`->\` 或 \`-->\`，它们画出的连线没有箭头
+- 消息和箭头之间的冒号必须是英文冒号 \`:\`，冒号后的文本可以包含中文标点
+- 激活：在箭头后加 \`+\`/\`-\`，或使用 \`activate A\` / \`deactivate A\`
+- 分支和循环：\`alt ... else ... end\`、\`opt ... end\`、\`loop 描述 ... end\`、\`par ... and ... end\`
+- 注释：\`Note right of A: 文本\`、\`Note over A,B: 文本\``,
+
+  er: `## ER图语法速查
+
+\`\`\`mermaid
+erDiagram
+    CUSTOMER ||--o{ ORDER : places
+    ORDER ||--|{ ORDER_ITEM : contains
+    PRODUCT ||--o{ ORDER_ITEM : "appears in"
+    CUSTOMER {
+        int id PK
+        string email UK "登录邮箱"
+        string name
+    }
+    ORDER {
+        int id PK
+        int customer_id FK
+        datetime created_at
+    }
+\`\`\`
+
+- 第一行必须是 \`erDiagram\`
+- 实体名使用字母、数字、下划线或连字符（如 \`ORDER_ITEM\`），不要使用空格和中文括号
+- 关系：\`实体A 基数A--基数B 实体B : 标签\`，标签包含空格时用双引号包裹
+- 基数：\`||\` 恰好一个，\`|o\`/\`o|\` 零或一个，\`}|\`/\`|{\` 一个或多个，\`}o\`/\`o{\` 零或多个；\`--\` 为实线（标识关系），\`..\` 为虚线
+- 属性：\`类型 名称 [PK|FK|UK] ["注释"]\`，类型和名称中不能有空格
+- 每条关系只写一次，外键列同时写在属性中并标注 \`FK\``,
+
+  flowchart: `## 流程图语法速查
+
+\`\`\`mermaid
+flowchart TD
+    A([开始]) --> B[读取配置]
+    B --> C{"配置有效（已校验）?"}
+    C -->|是| D[(数据库)]
+    C -->|否| E[/输出错误/]
+    D --> F[[调用子流程]]
+    E --> G((结束))
+    F --> G
+    subgraph S1 [后台任务]
+        H[清理缓存] -.-> I[写入日志]
+    end
+    G ==> H
+\`\`\`
+
+- 第一行必须是 \`flowchart\` 或 \`graph\` 加方向：TD（从上到下）、LR（从左到右）、BT、RL
+- 节点形状：\`A[矩形]\`、\`A(圆角)\`、\`A([体育场])\`、\`A[[子流程]]\`、\`A[(数据库)]\`、\`A((圆形))\`、\`A{菱形}\`、\`A{{六边形}}\`、\`A[/平行四边形/]\`
+- 连线：\`-->\` 实线箭头、\`---\` 实线、\`-.->\` 虚线、\`==>\` 粗线；带文字 \`A -->|文字| B\`；不要使用 \`->\`
+- 节点或连线文字中包含括号、方括号、花括号、引号等特殊字符时，用双引号包裹整个文字：\`A["函数 foo(x)"]\`
+- 节点ID只用字母、数字和下划线，不要使用小写的 \`end\` 作为ID（它是子图结束关键字），可以改用 \`End\`
+- 子图：\`subgraph ID [标题] ... end\`
+- 所有语法符号（括号、冒号、分号、竖线）必须是英文半角字符，中文全角符号只能出现在双引号包裹的文字中`
+};
+
+/**
+ * 通用的语法要点（图表类型未知时使用）
+ */
+const GENERAL_CHEAT_SHEET = `## Mermaid通用语法要点
+
+- 第一行（frontmatter 和 \`%%{init}%%\` 指令之后）声明图表类型，如 \`flowchart TD\`、\`sequenceDiagram\`、\`classDiagram\`、\`erDiagram\`、\`stateDiagram-v2\`、\`gantt\`、\`pie\`
+- 注释使用 \`%%\` 开头的单独一行
+- 语法符号必须使用英文半角字符，文字中包含特殊字符时用双引号包裹
+- 不要使用图表类型的保留关键字（如流程图中的 \`end\`）作为ID`;
+
+/**
+ * 所有提示词都附带的验证步骤
+ */
+const VALIDATION_STEPS = `## 验证步骤
+
+1. 写完代码后，先调用 \`validate_mermaid_syntax\` 工具验证语法（不要跳过这一步）
+2. 如果返回语法错误，根据诊断中的行列号和期望记号修改代码，可以先调用 \`fix_mermaid\` 自动修复常见错误，然后重新验证，直到通过
+3. 验证通过后再调用 \`render_mermaid_to_svg\` 或 \`render_mermaid_to_png\` 渲染
+4. 最终回复中给出完整的Mermaid代码（放在 \`\`\`mermaid 代码块中）`;
+
+const FLOWCHART_DIRECTIONS = ['TD', 'TB', 'LR', 'BT', 'RL'];
+
+/**
+ * 提示词定义
+ */
+export const MERMAID_PROMPTS: MermaidPromptDefinition[] = [
+  {
+    name: 'sequence_from_api',
+    description: '根据API描述生成序列图',
+    arguments: [
+      { name: 'apiDescription', description: 'API或交互流程的描述（接口、调用顺序、成功和失败情况）', required: true },
+      { name: 'participants', description: '参与者列表（逗号分隔，可选），如 用户,客户端,网关,订单服务', required: false }
+    ]
+  },
+  {
+    name: 'er_from_tables',
+    description: '根据数据表列表生成ER图',
+    arguments: [
+      { name: 'tables', description: '数据表及字段列表（如建表语句或“表名: 字段1, 字段2”）', required: true },
+      { name: 'relationships', description: '表之间关系的补充说明（可选），未提供时根据外键推断', required: false }
+    ]
+  },
+  {
+    name: 'flowchart_from_steps',
+    description: '根据处理步骤生成流程图',
+    arguments: [
+      { name: 'steps', description: '处理步骤描述（每行一步，可包含判断条件和分支）', required: true },
+      { name: 'direction', description: '方向：TD（从上到下，默认）、LR、BT 或 RL', required: false }
+    ]
+  },
+  {
+    name: 'fix_broken_diagram',
+    description: '修复无法渲染的Mermaid图表',
+    arguments: [
+      { name: 'mermaidCode', description: '出错的Mermaid代码', required: true },
+      { name: 'errorMessage', description: '渲染或解析时的错误信息（可选）', required: false }
+    ]
+  }
+];
+
+/**
+ * 生成提示词消息，缺少必需参数或提示词不存在时抛出错误
+ */
+export function getMermaidPrompt(name: string, args: Record<string, string> = {}): MermaidPromptResult {
+  const definition = MERMAID_PROMPTS.find((prompt) => prompt.name === name);
+  if (!definition) {
+    throw new Error(`未知的提示词: ${name}`);
+  }
+  for (const argument of definition.arguments) {
+    if (argument.required && !args[argument.name]?.trim()) {
+      throw new Error(`提示词 ${name} 缺少必需参数: ${argument.name}`);
+    }
+  }
+
+  return {
+    description: definition.description,
+    messages: [{ role: 'user', content: { type: 'text', text: buildPromptText(name, args) } }]
+  };
+}
+
+function buildPromptText(name: string, args: Record<string, string>): string {
+  switch (name) {
+    case 'sequence_from_api':
+      return [
+        '请根据下面的API描述编写Mermaid序列图，展示各参与者之间的请求和响应，包括主要的成功和失败分支。',
+        args.participants ? `参与者：${args.participants}` : '参与者：根据描述确定，客户端在最左侧。',
+        `API描述：\n${args.apiDescription}`,
+        CHEAT_SHEETS.sequence!,
+        VALIDATION_STEPS
+      ].join('\n\n');
+
+    case 'er_from_tables':
+      return [
+        '请根据下面的数据表编写Mermaid ER图，包含每个表的主要字段（标注主键PK、外键FK和唯一键UK）以及表之间的关系和基数。',
+        `数据表：\n${args.tables}`,
+        args.relationships ? `关系说明：\n${args.relationships}` : '关系：根据外键字段推断，无法确定基数时使用零或多个（}o/o{）。',
+        CHEAT_SHEETS.er!,
+        VALIDATION_STEPS
+      ].join('\n\n');
+
+    case 'flowchart_from_steps': {
+      const direction = args.direction?.trim().toUpperCase() || 'TD';
+      if (!FLOWCHART_DIRECTIONS.includes(direction)) {
+        throw new Error(`direction 必须是以下值之一: ${FLOWCHART_DIRECTIONS.join(', ')}`);
+      }
+      return [
+        `请根据下面的处理步骤编写Mermaid流程图，方向使用 ${direction}，判断条件使用菱形节点并在连线上标注分支条件。`,
+        `处理步骤：\n${args.steps}`,
+        CHEAT_SHEETS.flowchart!,
+        VALIDATION_STEPS
+      ].join('\n\n');
+    }
+
+    default: {
+      const diagramType = detectDiagramType(args.mermaidCode!);
+      return [
+        `下面的Mermaid${diagramType.id === 'unknown' ? '' : diagramType.name}代码无法渲染，请找出并修复所有语法错误，尽量保持图表的原有结构和内容不变，并简要说明修改了哪些地方。`,
+        `出错的代码：\n\`\`\`mermaid\n${args.mermaidCode}\n\`\`\``,
+        args.errorMessage ? `错误信息：\n${args.errorMessage}` : '错误信息：未提供，请先调用 `validate_mermaid_syntax` 获取诊断。',
+        CHEAT_SHEETS[diagramType.id] ?? GENERAL_CHEAT_SHEET,
+        VALIDATION_STEPS
+      ].join('\n\n');
+    }
+  }
+}
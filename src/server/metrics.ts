@@ -0,0 +1,256 @@
+/**
+ * 运行指标模块
+ * 记录工具调用、渲染和验证的次数、耗时、输出大小和降级情况，
+ * 以Prometheus文本格式（/metrics）或JSON（get_server_stats 工具）导出
+ */
+
+type Labels = Record<string, string>;
+
+/**
+ * 耗时直方图的桶（秒）
+ */
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+/**
+ * SVG大小直方图的桶（字节）
+ */
+const SIZE_BUCKETS = [1024, 4096, 16384, 65536, 262144, 1048576, 4194304];
+
+/**
+ * 导出时读取的外部数据（如浏览器池和缓存的统计）
+ */
+export interface CollectedMetric {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge';
+  values: Array<{ labels?: Labels; value: number }>;
+}
+
+/**
+ * 渲染事件
+ */
+export interface RenderEvent {
+  format: string;
+  diagramType: string;
+  theme: string;
+  /** 实际使用的渲染器，失败时为 none */
+  renderer: string;
+  outcome: 'success' | 'error' | 'cancelled';
+  durationMs: number;
+  cache?: string;
+  /** 失败后被跳过的渲染器 */
+  fallbackFrom?: string[];
+  /** SVG字节数 */
+  svgBytes?: number;
+}
+
+/**
+ * 验证事件
+ */
+export interface ValidationEvent {
+  diagramType: string;
+  /** 实际使用的校验器，失败时为 none */
+  validator: string;
+  outcome: 'valid' | 'invalid' | 'error' | 'cancelled';
+  durationMs: number;
+  /** 失败后被跳过的校验器 */
+  fallbackFrom?: string[];
+}
+
+abstract class Metric {
+  constructor(readonly name: string, readonly help: string, readonly type: 'counter' | 'histogram') {}
+
+  abstract lines(): string[];
+
+  abstract toJSON(): unknown;
+}
+
+class Counter extends Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += value;
+    this.values.set(key, entry);
+  }
+
+  lines(): string[] {
+    return [...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+  }
+
+  toJSON(): unknown {
+    return [...this.values.values()];
+  }
+}
+
+class Histogram extends Metric {
+  private values = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(name: string, help: string, private buckets: number[]) {
+    super(name, help, 'histogram');
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.values.set(key, entry);
+    }
+    this.buckets.forEach((bucket, index) => {
+      if (value <= bucket) {
+        entry!.counts[index]!++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  lines(): string[] {
+    const lines: string[] = [];
+    for (const { labels, counts, sum, count } of this.values.values()) {
+      this.buckets.forEach((bucket, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bucket) })} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+
+  toJSON(): unknown {
+    return [...this.values.values()].map(({ labels, sum, count }) => ({ labels, count, sum, average: count > 0 ? sum / count : 0 }));
+  }
+}
+
+export class MermaidMetrics {
+  private toolCalls = new Counter('mermaid_tool_calls_total', 'MCP工具调用次数');
+  private toolDuration = new Histogram('mermaid_tool_duration_seconds', 'MCP工具调用耗时', DURATION_BUCKETS);
+  private renders = new Counter('mermaid_renders_total', '渲染次数');
+  private renderDuration = new Histogram('mermaid_render_duration_seconds', '渲染耗时', DURATION_BUCKETS);
+  private renderFallbacks = new Counter('mermaid_render_fallbacks_total', '渲染器失败后降级的次数');
+  private svgBytes = new Histogram('mermaid_svg_bytes', '渲染得到的SVG大小', SIZE_BUCKETS);
+  private renderCache = new Counter('mermaid_render_cache_lookups_total', '渲染缓存查找次数');
+  private validations = new Counter('mermaid_validations_total', '语法验证次数');
+  private validationDuration = new Histogram('mermaid_validation_duration_seconds', '语法验证耗时', DURATION_BUCKETS);
+  private validationFallbacks = new Counter('mermaid_validation_fallbacks_total', '校验器失败后降级的次数');
+  private collectors: Array<() => CollectedMetric[]> = [];
+
+  /**
+   * 记录一次MCP工具调用
+   */
+  recordToolCall(tool: string, outcome: 'success' | 'error' | 'rate_limited', durationMs: number): void {
+    this.toolCalls.inc({ tool, outcome });
+    this.toolDuration.observe({ tool }, durationMs / 1000);
+  }
+
+  /**
+   * 记录一次渲染
+   */
+  recordRender(event: RenderEvent): void {
+    this.renders.inc({
+      format: event.format,
+      diagram_type: event.diagramType,
+      theme: event.theme,
+      renderer: event.renderer,
+      outcome: event.outcome
+    });
+    this.renderDuration.observe({ format: event.format, renderer: event.renderer }, event.durationMs / 1000);
+    for (const renderer of event.fallbackFrom ?? []) {
+      this.renderFallbacks.inc({ renderer });
+    }
+    if (event.cache) {
+      this.renderCache.inc({ format: event.format, result: event.cache === 'miss' ? 'miss' : 'hit' });
+    }
+    if (event.svgBytes !== undefined) {
+      this.svgBytes.observe({ renderer: event.renderer }, event.svgBytes);
+    }
+  }
+
+  /**
+   * 记录一次语法验证
+   */
+  recordValidation(event: ValidationEvent): void {
+    this.validations.inc({ diagram_type: event.diagramType, validator: event.validator, outcome: event.outcome });
+    this.validationDuration.observe({ validator: event.validator }, event.durationMs / 1000);
+    for (const validator of event.fallbackFrom ?? []) {
+      this.validationFallbacks.inc({ validator });
+    }
+  }
+
+  /**
+   * 注册导出时读取的外部指标
+   */
+  addCollector(collector: () => CollectedMetric[]): void {
+    this.collectors.push(collector);
+  }
+
+  /**
+   * 以Prometheus文本格式导出
+   */
+  toPrometheus(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics()) {
+      lines.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`, ...metric.lines());
+    }
+    for (const collected of this.collect()) {
+      lines.push(`# HELP ${collected.name} ${collected.help}`, `# TYPE ${collected.name} ${collected.type}`);
+      for (const { labels = {}, value } of collected.values) {
+        lines.push(`${collected.name}${formatLabels(labels)} ${value}`);
+      }
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * 以JSON导出（用于MCP工具）
+   */
+  toJSON(): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const metric of this.metrics()) {
+      result[metric.name] = metric.toJSON();
+    }
+    for (const collected of this.collect()) {
+      result[collected.name] = collected.values;
+    }
+    return result;
+  }
+
+  private metrics(): Metric[] {
+    return [
+      this.toolCalls,
+      this.toolDuration,
+      this.renders,
+      this.renderDuration,
+      this.renderFallbacks,
+      this.svgBytes,
+      this.renderCache,
+      this.validations,
+      this.validationDuration,
+      this.validationFallbacks
+    ];
+  }
+
+  private collect(): CollectedMetric[] {
+    return this.collectors.flatMap((collector) => collector());
+  }
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  const formatted = entries.map(([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`);
+  return `{${formatted.join(',')}}`;
+}
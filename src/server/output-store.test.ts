@@ -0,0 +1,175 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { OUTPUT_MANIFEST_FILE, OutputStore } from './output-store.js';
+
+describe('OutputStore', () => {
+  let base: string;
+  let dir: string;
+
+  beforeEach(() => {
+    base = fs.mkdtempSync(path.join(os.tmpdir(), 'mermaid-output-test-'));
+    dir = path.join(base, 'out');
+  });
+
+  afterEach(() => {
+    fs.rmSync(base, { recursive: true, force: true });
+  });
+
+  function createStore(options: { ttlMs?: number; maxBytes?: number } = {}): OutputStore {
+    return new OutputStore({ dir, ttlMs: options.ttlMs ?? 0, maxBytes: options.maxBytes ?? 0 });
+  }
+
+  /** 将文件的修改时间设为若干毫秒之前 */
+  function age(filePath: string, ms: number): void {
+    const time = new Date(Date.now() - ms);
+    fs.utimesSync(filePath, time, time);
+  }
+
+  it('按标题和内容哈希命名，相同内容得到相同文件', async () => {
+    const store = createStore();
+    const first = await store.write('<svg/>', { title: '我的 图表', extension: 'svg' });
+    const second = await store.write('<svg/>', { title: '我的 图表', extension: 'svg' });
+
+    assert.equal(first, second);
+    assert.equal(path.dirname(first), dir);
+    assert.match(path.basename(first), /_[0-9a-f]{16}\.svg$/);
+    assert.equal(fs.readFileSync(first, 'utf8'), '<svg/>');
+  });
+
+  it('写入指定的相对路径并补上扩展名', async () => {
+    const store = createStore();
+    const filePath = await store.write('data', { title: 't', extension: 'png', outputPath: 'docs/flow' });
+
+    assert.equal(filePath, path.join(dir, 'docs', 'flow.png'));
+    assert.deepEqual((await store.list()).map((file) => file.path), ['docs/flow.png']);
+    await assert.rejects(
+      store.write('data', { title: 't', extension: 'png', outputPath: 'docs/flow.svg' }),
+      /扩展名 \.svg 与输出格式 \.png 不一致/
+    );
+  });
+
+  it('拒绝越出输出目录的路径，且不会创建目录', async () => {
+    const store = createStore();
+    await assert.rejects(
+      store.write('x', { title: 't', extension: 'svg', outputPath: '../escape/a' }),
+      /路径必须位于输出目录内/
+    );
+    await assert.rejects(
+      store.write('x', { title: 't', extension: 'svg', outputPath: path.join(base, 'abs') }),
+      /路径必须位于输出目录内/
+    );
+    assert.equal(fs.existsSync(path.join(base, 'escape')), false);
+  });
+
+  it('允许以两个点开头的文件名', async () => {
+    const store = createStore();
+    const filePath = await store.write('x', { title: 't', extension: 'svg', outputPath: '..draft.svg' });
+
+    assert.equal(filePath, path.join(dir, '..draft.svg'));
+    assert.deepEqual((await store.list()).map((file) => file.path), ['..draft.svg']);
+    assert.deepEqual((await createStore().list()).map((file) => file.path), ['..draft.svg']);
+    assert.equal(await store.delete('..draft.svg'), filePath);
+  });
+
+  it('拒绝经符号链接越出输出目录的路径', async () => {
+    const outside = path.join(base, 'outside');
+    fs.mkdirSync(outside);
+    fs.mkdirSync(dir);
+    fs.symlinkSync(outside, path.join(dir, 'link'));
+    const store = createStore();
+
+    await assert.rejects(
+      store.write('x', { title: 't', extension: 'svg', outputPath: 'link/nested/a' }),
+      /路径必须位于输出目录内/
+    );
+    assert.deepEqual(fs.readdirSync(outside), []);
+  });
+
+  it('不覆盖符号链接和不是由本服务写入的文件', async () => {
+    const target = path.join(base, 'target.svg');
+    fs.writeFileSync(target, 'original');
+    fs.mkdirSync(dir);
+    fs.symlinkSync(target, path.join(dir, 'link.svg'));
+    fs.writeFileSync(path.join(dir, 'user.svg'), 'user');
+    const store = createStore();
+
+    await assert.rejects(
+      store.write('x', { title: 't', extension: 'svg', outputPath: 'link.svg' }),
+      /已存在且不是普通文件/
+    );
+    await assert.rejects(
+      store.write('x', { title: 't', extension: 'svg', outputPath: 'user.svg' }),
+      /已存在且不是由本服务写入/
+    );
+    assert.equal(fs.readFileSync(target, 'utf8'), 'original');
+    assert.equal(fs.readFileSync(path.join(dir, 'user.svg'), 'utf8'), 'user');
+  });
+
+  it('可以覆盖本服务写入的文件', async () => {
+    const store = createStore();
+    await store.write('v1', { title: 't', extension: 'svg', outputPath: 'same' });
+    const filePath = await store.write('v2', { title: 't', extension: 'svg', outputPath: 'same' });
+    assert.equal(fs.readFileSync(filePath, 'utf8'), 'v2');
+  });
+
+  it('列出和删除只涉及清单中的文件', async () => {
+    fs.mkdirSync(dir);
+    fs.writeFileSync(path.join(dir, 'user.svg'), 'user');
+    const store = createStore();
+    const filePath = await store.write('<svg/>', { title: 'a', extension: 'svg' });
+
+    assert.deepEqual((await store.list()).map((file) => file.absolutePath), [filePath]);
+    await assert.rejects(store.delete('user.svg'), /不是由本服务写入/);
+    await assert.rejects(store.delete('../out/user.svg'), /不是由本服务写入/);
+    await assert.rejects(store.delete('../elsewhere.svg'), /路径必须位于输出目录内/);
+
+    assert.equal(await store.delete(filePath), filePath);
+    assert.equal(fs.existsSync(filePath), false);
+    assert.deepEqual(await store.list(), []);
+    assert.equal(fs.existsSync(path.join(dir, 'user.svg')), true);
+  });
+
+  it('清单在新实例中保留', async () => {
+    const filePath = await createStore().write('<svg/>', { title: 'a', extension: 'svg' });
+    const manifest = JSON.parse(fs.readFileSync(path.join(dir, OUTPUT_MANIFEST_FILE), 'utf8')) as { files: string[] };
+
+    assert.deepEqual(manifest.files, [path.basename(filePath)]);
+    assert.deepEqual((await createStore().list()).map((file) => file.absolutePath), [filePath]);
+  });
+
+  it('按有效期清理本服务写入的文件', async () => {
+    fs.mkdirSync(dir);
+    const userFile = path.join(dir, 'old-user.svg');
+    fs.writeFileSync(userFile, 'user');
+    age(userFile, 2 * 60 * 60 * 1000);
+
+    // 写入时会在后台清理，使用不限制的实例写入，避免与下面的清理竞争
+    const writer = createStore();
+    const oldFile = await writer.write('old', { title: 'old', extension: 'svg' });
+    const newFile = await writer.write('new', { title: 'new', extension: 'svg' });
+    age(oldFile, 2 * 60 * 60 * 1000);
+
+    const store = createStore({ ttlMs: 60 * 60 * 1000 });
+    assert.deepEqual(await store.cleanup(), { deletedFiles: 1, freedBytes: 3 });
+    assert.equal(fs.existsSync(oldFile), false);
+    assert.equal(fs.existsSync(newFile), true);
+    assert.equal(fs.existsSync(userFile), true);
+  });
+
+  it('超过总大小时从最旧的文件开始删除，保留指定文件', async () => {
+    const writer = createStore();
+    const oldest = await writer.write('aaaaaa', { title: 'a', extension: 'svg' });
+    const middle = await writer.write('bbbbbb', { title: 'b', extension: 'svg' });
+    const newest = await writer.write('cccccc', { title: 'c', extension: 'svg' });
+    age(oldest, 3000);
+    age(middle, 2000);
+    age(newest, 1000);
+
+    const store = createStore({ maxBytes: 10 });
+    assert.deepEqual(await store.cleanup({ keep: oldest }), { deletedFiles: 2, freedBytes: 12 });
+    assert.deepEqual((await store.list()).map((file) => file.absolutePath), [oldest]);
+  });
+});
@@ -0,0 +1,350 @@
+/**
+ * 输出文件管理模块
+ * 将渲染结果写入受管理的输出目录：默认按内容哈希命名（相同内容得到相同文件，不会冲突），
+ * 也可以使用调用方指定的相对路径（限制在输出目录内），并按有效期和总大小清理旧文件；
+ * 写入的文件记录在输出目录的清单文件中，列出、删除和清理只涉及清单中的文件，不会动输出目录中的其他文件
+ */
+
+import * as fs from 'fs/promises';
+import { constants as fsConstants } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { createHash } from 'crypto';
+import { sanitizeFileName } from './utils.js';
+import { createLogger, errorFields } from './logger.js';
+
+const log = createLogger('output-store');
+
+/**
+ * 输出目录配置
+ */
+export interface OutputStoreOptions {
+  /** 输出目录 */
+  dir: string;
+  /** 文件有效期（毫秒），0表示不按时间清理 */
+  ttlMs: number;
+  /** 输出目录最大字节数，超出时删除最旧的文件，0表示不限制 */
+  maxBytes: number;
+}
+
+/**
+ * 写入文件的参数
+ */
+export interface OutputWriteOptions {
+  /** 图表标题（用于自动生成的文件名） */
+  title: string;
+  /** 文件扩展名（不含点） */
+  extension: string;
+  /** 调用方指定的相对路径（相对于输出目录） */
+  outputPath?: string;
+}
+
+/**
+ * 输出目录中的文件
+ */
+export interface OutputFileInfo {
+  /** 相对于输出目录的路径（使用 / 分隔） */
+  path: string;
+  absolutePath: string;
+  size: number;
+  modifiedAt: string;
+  /** 按有效期将被清理的时间，未设置有效期时省略 */
+  expiresAt?: string;
+}
+
+/**
+ * 两次自动清理之间的最短间隔
+ */
+const CLEANUP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * 清单文件名，记录本服务写入的文件（相对路径）
+ */
+export const OUTPUT_MANIFEST_FILE = '.mermaid-mcp-files.json';
+
+export class OutputStore {
+  private options: OutputStoreOptions;
+  private lastCleanup = 0;
+  private manifest?: Promise<Set<string>>;
+  private manifestWrite: Promise<void> = Promise.resolve();
+
+  constructor(options: Partial<OutputStoreOptions> = {}) {
+    this.options = {
+      dir: path.resolve(options.dir ?? process.env.MERMAID_OUTPUT_DIR ?? path.join(os.tmpdir(), 'mermaid-chart-mcp')),
+      ttlMs: options.ttlMs ?? parseFloat(process.env.MERMAID_OUTPUT_TTL_HOURS || '24') * 60 * 60 * 1000,
+      maxBytes: options.maxBytes ?? parseInt(process.env.MERMAID_OUTPUT_MAX_MB || '500') * 1024 * 1024
+    };
+  }
+
+  /**
+   * 输出目录的绝对路径
+   */
+  get dir(): string {
+    return this.options.dir;
+  }
+
+  /**
+   * 写入文件并返回绝对路径
+   */
+  async write(data: Buffer | string, options: OutputWriteOptions): Promise<string> {
+    const buffer = typeof data === 'string' ? Buffer.from(data, 'utf8') : data;
+    const relativePath = options.outputPath !== undefined
+      ? this.withExtension(options.outputPath, options.extension)
+      : `${sanitizeFileName(options.title) || 'diagram'}_${createHash('sha256').update(buffer).digest('hex').slice(0, 16)}.${options.extension}`;
+
+    const filePath = await this.resolveInside(relativePath, true);
+    await this.writeFile(filePath, buffer, relativePath);
+    await this.track(filePath);
+
+    // 写入后按间隔清理，清理失败不影响本次结果
+    if (Date.now() - this.lastCleanup >= CLEANUP_INTERVAL_MS) {
+      this.cleanup({ keep: filePath }).catch((error) => {
+        log.warn('清理输出目录失败', errorFields(error));
+      });
+    }
+    return filePath;
+  }
+
+  /**
+   * 列出本服务写入的文件（最新的在前）
+   */
+  async list(): Promise<OutputFileInfo[]> {
+    const files = await this.scan();
+    return files
+      .sort((a, b) => b.mtimeMs - a.mtimeMs)
+      .map((file) => ({
+        path: this.toRelative(file.path),
+        absolutePath: file.path,
+        size: file.size,
+        modifiedAt: new Date(file.mtimeMs).toISOString(),
+        ...(this.options.ttlMs > 0 ? { expiresAt: new Date(file.mtimeMs + this.options.ttlMs).toISOString() } : {})
+      }));
+  }
+
+  /**
+   * 删除本服务写入的文件（相对路径或输出目录内的绝对路径），返回删除的绝对路径
+   */
+  async delete(filePath: string): Promise<string> {
+    const relativePath = path.isAbsolute(filePath) ? path.relative(this.options.dir, filePath) : filePath;
+    const absolutePath = await this.resolveInside(relativePath, false, filePath);
+
+    const manifest = await this.loadManifest();
+    const stat = await fs.lstat(absolutePath).catch(() => undefined);
+    if (!manifest.has(this.toRelative(absolutePath)) || !stat?.isFile()) {
+      throw new Error(`文件不存在或不是由本服务写入: ${filePath}`);
+    }
+    await fs.rm(absolutePath);
+    await this.untrack([absolutePath]);
+    return absolutePath;
+  }
+
+  /**
+   * 删除本服务写入的过期文件，再按总大小从最旧的文件开始删除，返回删除的文件数和释放的字节数
+   */
+  async cleanup(options: { keep?: string } = {}): Promise<{ deletedFiles: number; freedBytes: number }> {
+    this.lastCleanup = Date.now();
+    const files = (await this.scan()).sort((a, b) => a.mtimeMs - b.mtimeMs);
+    let totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+    let deletedFiles = 0;
+    let freedBytes = 0;
+
+    const deleted: string[] = [];
+    const expireBefore = this.options.ttlMs > 0 ? Date.now() - this.options.ttlMs : -Infinity;
+    for (const file of files) {
+      const expired = file.mtimeMs < expireBefore;
+      const overLimit = this.options.maxBytes > 0 && totalBytes > this.options.maxBytes;
+      if ((!expired && !overLimit) || file.path === options.keep) {
+        continue;
+      }
+      await fs.rm(file.path, { force: true });
+      deleted.push(file.path);
+      totalBytes -= file.size;
+      freedBytes += file.size;
+      deletedFiles++;
+    }
+    if (deleted.length > 0) {
+      await this.untrack(deleted);
+    }
+
+    if (deletedFiles > 0) {
+      log.info('已清理输出目录', { deletedFiles, freedBytes });
+    }
+    return { deletedFiles, freedBytes };
+  }
+
+  /**
+   * 为相对路径补上扩展名，已有的扩展名必须与输出格式一致
+   */
+  private withExtension(outputPath: string, extension: string): string {
+    const current = path.extname(outputPath).slice(1).toLowerCase();
+    if (!current) {
+      return `${outputPath}.${extension}`;
+    }
+    if (current !== extension) {
+      throw new Error(`输出路径的扩展名 .${current} 与输出格式 .${extension} 不一致`);
+    }
+    return outputPath;
+  }
+
+  /**
+   * 将相对路径解析为输出目录内的绝对路径，拒绝越出输出目录的路径（包括经符号链接越出）；
+   * 先检查已存在的上级目录位于输出目录内，再逐级创建缺少的子目录，被拒绝的路径不会在输出目录外创建任何目录
+   */
+  private async resolveInside(relativePath: string, createParent: boolean, displayPath = relativePath): Promise<string> {
+    const root = this.options.dir;
+    const resolved = path.resolve(root, relativePath);
+    if (!isInside(root, resolved)) {
+      throw new Error(`路径必须位于输出目录内: ${displayPath}`);
+    }
+
+    if (createParent) {
+      await fs.mkdir(root, { recursive: true });
+    }
+    const realRoot = await fs.realpath(root).catch(() => root);
+
+    // 找到最近的已存在上级目录，其余各级目录稍后创建
+    const missing: string[] = [];
+    let existing = path.dirname(resolved);
+    let realExisting = await fs.realpath(existing).catch(() => undefined);
+    while (realExisting === undefined && existing !== root) {
+      missing.unshift(existing);
+      existing = path.dirname(existing);
+      realExisting = await fs.realpath(existing).catch(() => undefined);
+    }
+    realExisting ??= realRoot;
+    if (realExisting !== realRoot && !isInside(realRoot, realExisting)) {
+      throw new Error(`路径必须位于输出目录内: ${displayPath}`);
+    }
+
+    if (createParent) {
+      for (const dir of missing) {
+        await fs.mkdir(dir).catch((error: NodeJS.ErrnoException) => {
+          if (error.code !== 'EEXIST') {
+            throw error;
+          }
+        });
+        // 并发创建的可能是指向别处的符号链接
+        const stat = await fs.lstat(dir);
+        if (!stat.isDirectory()) {
+          throw new Error(`路径必须位于输出目录内: ${displayPath}`);
+        }
+      }
+    }
+    return resolved;
+  }
+
+  /**
+   * 写入文件：不跟随符号链接，不覆盖输出目录中不是由本服务写入的文件
+   */
+  private async writeFile(filePath: string, buffer: Buffer, displayPath: string): Promise<void> {
+    const stat = await fs.lstat(filePath).catch(() => undefined);
+    if (stat) {
+      if (!stat.isFile()) {
+        throw new Error(`输出路径已存在且不是普通文件: ${displayPath}`);
+      }
+      if (!(await this.loadManifest()).has(this.toRelative(filePath))) {
+        throw new Error(`输出路径已存在且不是由本服务写入，不会覆盖: ${displayPath}`);
+      }
+    }
+
+    // O_NOFOLLOW 防止检查后被替换为符号链接（不支持的平台上为0）
+    const flags = fsConstants.O_WRONLY | fsConstants.O_CREAT | fsConstants.O_TRUNC | (fsConstants.O_NOFOLLOW ?? 0);
+    const handle = await fs.open(filePath, flags).catch((error: NodeJS.ErrnoException) => {
+      throw error.code === 'ELOOP' ? new Error(`输出路径已存在且不是普通文件: ${displayPath}`) : error;
+    });
+    try {
+      await handle.writeFile(buffer);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * 列出清单中仍然存在的文件，已被外部删除或替换为其他类型的条目从清单中移除
+   */
+  private async scan(): Promise<Array<{ path: string; size: number; mtimeMs: number }>> {
+    const manifest = await this.loadManifest();
+    const files: Array<{ path: string; size: number; mtimeMs: number }> = [];
+    const missing: string[] = [];
+    for (const relativePath of manifest) {
+      const filePath = path.join(this.options.dir, relativePath);
+      const stat = await fs.lstat(filePath).catch(() => undefined);
+      if (stat?.isFile()) {
+        files.push({ path: filePath, size: stat.size, mtimeMs: stat.mtimeMs });
+      } else {
+        missing.push(filePath);
+      }
+    }
+    if (missing.length > 0) {
+      await this.untrack(missing);
+    }
+    return files;
+  }
+
+  /**
+   * 读取清单（只读取一次），清单不存在或损坏时视为空
+   */
+  private loadManifest(): Promise<Set<string>> {
+    this.manifest ??= fs.readFile(path.join(this.options.dir, OUTPUT_MANIFEST_FILE), 'utf8')
+      .then((content) => {
+        const data = JSON.parse(content) as { files?: unknown };
+        const files = Array.isArray(data.files) ? data.files : [];
+        return new Set(files.filter((file): file is string => typeof file === 'string' && isInside(this.options.dir, path.resolve(this.options.dir, file))));
+      })
+      .catch(() => new Set<string>());
+    return this.manifest;
+  }
+
+  /**
+   * 将写入的文件加入清单
+   */
+  private async track(filePath: string): Promise<void> {
+    const manifest = await this.loadManifest();
+    const relativePath = this.toRelative(filePath);
+    if (!manifest.has(relativePath)) {
+      manifest.add(relativePath);
+      await this.saveManifest(manifest);
+    }
+  }
+
+  /**
+   * 从清单中移除文件
+   */
+  private async untrack(filePaths: string[]): Promise<void> {
+    const manifest = await this.loadManifest();
+    for (const filePath of filePaths) {
+      manifest.delete(this.toRelative(filePath));
+    }
+    await this.saveManifest(manifest);
+  }
+
+  /**
+   * 保存清单：依次写入临时文件再重命名，避免并发写入和写入中断导致清单损坏
+   */
+  private saveManifest(manifest: Set<string>): Promise<void> {
+    const manifestPath = path.join(this.options.dir, OUTPUT_MANIFEST_FILE);
+    this.manifestWrite = this.manifestWrite
+      .catch(() => undefined)
+      .then(async () => {
+        const tempPath = `${manifestPath}.${process.pid}.tmp`;
+        await fs.writeFile(tempPath, JSON.stringify({ files: [...manifest].sort() }), 'utf8');
+        await fs.rename(tempPath, manifestPath);
+      });
+    return this.manifestWrite;
+  }
+
+  /**
+   * 输出目录内的绝对路径转换为清单中的相对路径（使用 / 分隔）
+   */
+  private toRelative(filePath: string): string {
+    return path.relative(this.options.dir, filePath).split(path.sep).join('/');
+  }
+}
+
+/**
+ * 目标是否位于目录内（不含目录本身）；只有 .. 路径段表示越出，..draft.svg 这样以两个点开头的文件名仍在目录内
+ */
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative !== '' && relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
@@ -0,0 +1,125 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { RateLimitError, RateLimiter, countSourceBytes } from './rate-limiter.js';
+
+const UNLIMITED = { requestsPerMinute: 0, burst: 0, maxConcurrentRenders: 0, maxSourceBytesPerMinute: 0 };
+const CALL = { render: false, sourceBytes: 0 };
+const RENDER = { render: true, sourceBytes: 0 };
+
+describe('RateLimiter', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+    mock.method(Date, 'now', () => now);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  /** 断言抛出指定原因和重试时间的 RateLimitError */
+  function assertLimited(fn: () => unknown, reason: RateLimitError['reason'], retryAfterSeconds: number): void {
+    assert.throws(fn, (error: unknown) => {
+      assert.ok(error instanceof RateLimitError);
+      assert.equal(error.reason, reason);
+      assert.equal(error.retryAfterSeconds, retryAfterSeconds);
+      return true;
+    });
+  }
+
+  it('各项为0时不限制', () => {
+    const limiter = new RateLimiter(UNLIMITED);
+    for (let i = 0; i < 100; i++) {
+      limiter.acquire('a', { render: true, sourceBytes: 1024 * 1024 });
+    }
+    assert.equal(limiter.getUsage().activeRenders, 100);
+  });
+
+  it('突发请求用完后按速率补充', () => {
+    const limiter = new RateLimiter({ ...UNLIMITED, requestsPerMinute: 60, burst: 2 });
+    limiter.acquire('a', CALL);
+    limiter.acquire('a', CALL);
+    assertLimited(() => limiter.acquire('a', CALL), 'requests', 1);
+
+    now += 1000;
+    limiter.acquire('a', CALL);
+    assertLimited(() => limiter.acquire('a', CALL), 'requests', 1);
+  });
+
+  it('按客户端分别计算配额', () => {
+    const limiter = new RateLimiter({ ...UNLIMITED, requestsPerMinute: 60, burst: 1 });
+    limiter.acquire('a', CALL);
+    limiter.acquire('b', CALL);
+    assertLimited(() => limiter.acquire('a', CALL), 'requests', 1);
+  });
+
+  it('限制同时进行的渲染，释放函数只生效一次', () => {
+    const limiter = new RateLimiter({ ...UNLIMITED, maxConcurrentRenders: 1 });
+    const release = limiter.acquire('a', RENDER);
+    assertLimited(() => limiter.acquire('a', RENDER), 'concurrency', 1);
+    limiter.acquire('a', CALL);
+
+    release();
+    release();
+    const second = limiter.acquire('a', RENDER);
+    assert.equal(limiter.getUsage().activeRenders, 1);
+    second();
+    assert.equal(limiter.getUsage().activeRenders, 0);
+  });
+
+  it('限制每分钟提交的源码字节数', () => {
+    const limiter = new RateLimiter({ ...UNLIMITED, maxSourceBytesPerMinute: 100 });
+    limiter.acquire('a', { render: false, sourceBytes: 60 });
+    assertLimited(() => limiter.acquire('a', { render: false, sourceBytes: 60 }), 'sourceBytes', 12);
+
+    now += 12000;
+    limiter.acquire('a', { render: false, sourceBytes: 60 });
+  });
+
+  it('超过整分钟配额的单个请求在配额完全恢复时放行', () => {
+    const limiter = new RateLimiter({ ...UNLIMITED, maxSourceBytesPerMinute: 100 });
+    limiter.acquire('a', { render: false, sourceBytes: 500 });
+    // 透支的400字节和下一个请求的1字节需要约241秒恢复
+    assertLimited(() => limiter.acquire('a', { render: false, sourceBytes: 1 }), 'sourceBytes', 241);
+  });
+
+  it('被拒绝的请求不消耗配额并计入拒绝次数', () => {
+    const limiter = new RateLimiter({ ...UNLIMITED, requestsPerMinute: 60, burst: 5, maxConcurrentRenders: 1, maxSourceBytesPerMinute: 100 });
+    limiter.acquire('a', { render: true, sourceBytes: 10 });
+    assert.throws(() => limiter.acquire('a', { render: true, sourceBytes: 10 }), RateLimitError);
+    assert.throws(() => limiter.acquire('a', { render: false, sourceBytes: 95 }), RateLimitError);
+
+    const usage = limiter.getUsage();
+    assert.deepEqual(usage.clients, [{ client: 'a', requestsAvailable: 4, activeRenders: 1, sourceBytesAvailable: 90 }]);
+    assert.deepEqual(usage.rejected, { requests: 0, concurrency: 1, sourceBytes: 1 });
+    assert.equal(usage.trackedClients, 1);
+  });
+
+  it('移除配额已恢复且没有进行中渲染的客户端', () => {
+    const limiter = new RateLimiter({ ...UNLIMITED, requestsPerMinute: 60, burst: 1 });
+    limiter.acquire('idle', CALL);
+    const release = limiter.acquire('busy', RENDER);
+
+    now += 2 * 60 * 1000;
+    limiter.acquire('other', CALL);
+    assert.deepEqual(limiter.getUsage().clients.map((usage) => usage.client).sort(), ['busy', 'other']);
+    release();
+  });
+});
+
+describe('countSourceBytes', () => {
+  it('统计单个图表、PDF图表列表和批量渲染项的源码字节数', () => {
+    assert.equal(countSourceBytes({ mermaidCode: '图表' }), 6);
+    assert.equal(
+      countSourceBytes({ diagrams: [{ mermaidCode: 'ab' }, { mermaidCode: 'c' }], items: [{ mermaidCode: 'de' }, null, {}] }),
+      5
+    );
+  });
+
+  it('忽略无法识别的参数', () => {
+    assert.equal(countSourceBytes(undefined), 0);
+    assert.equal(countSourceBytes('graph TD'), 0);
+    assert.equal(countSourceBytes({ mermaidCode: 42 }), 0);
+  });
+});
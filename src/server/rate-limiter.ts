@@ -0,0 +1,287 @@
+/**
+ * 限流和配额模块
+ * 按客户端（API密钥或IP）限制请求速率（令牌桶）、同时进行的渲染数和每分钟提交的源码字节数，
+ * 超出时抛出带重试时间的 RateLimitError；MCP工具调用和HTTP接口共用同一份配额
+ */
+
+import { formatFileSize } from './utils.js';
+
+/**
+ * 限流配置，各项为0时不限制
+ */
+export interface RateLimiterOptions {
+  /** 每分钟允许的请求数（令牌补充速率） */
+  requestsPerMinute: number;
+  /** 令牌桶容量（允许的突发请求数） */
+  burst: number;
+  /** 每个客户端同时进行的渲染数 */
+  maxConcurrentRenders: number;
+  /** 每个客户端每分钟提交的源码字节数 */
+  maxSourceBytesPerMinute: number;
+}
+
+/**
+ * 请求的类型和大小
+ */
+export interface QuotaRequest {
+  /** 是否占用渲染并发配额 */
+  render: boolean;
+  /** 提交的Mermaid源码字节数 */
+  sourceBytes: number;
+}
+
+/**
+ * 单个客户端的使用情况
+ */
+export interface ClientUsage {
+  client: string;
+  /** 剩余可用的请求数 */
+  requestsAvailable: number;
+  activeRenders: number;
+  /** 本分钟内剩余可提交的源码字节数 */
+  sourceBytesAvailable: number;
+}
+
+/**
+ * 限流状态（用于健康检查）
+ */
+export interface RateLimiterUsage {
+  limits: RateLimiterOptions;
+  /** 有记录的客户端数 */
+  trackedClients: number;
+  activeRenders: number;
+  /** 被拒绝的请求数（按原因） */
+  rejected: Record<RateLimitReason, number>;
+  /** 最活跃的客户端 */
+  clients: ClientUsage[];
+}
+
+export type RateLimitReason = 'requests' | 'concurrency' | 'sourceBytes';
+
+/**
+ * 超出限流或配额
+ */
+export class RateLimitError extends Error {
+  /** 建议的重试等待秒数（用于 Retry-After 响应头） */
+  readonly retryAfterSeconds: number;
+
+  constructor(message: string, readonly reason: RateLimitReason, retryAfterMs: number) {
+    const retryAfterSeconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+    super(`${message}，请在 ${retryAfterSeconds} 秒后重试`);
+    this.name = 'RateLimitError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * 并发渲染已满时建议的重试间隔（无法预知正在进行的渲染何时结束）
+ */
+const CONCURRENCY_RETRY_MS = 1000;
+
+/**
+ * 两次清理空闲客户端之间的最短间隔
+ */
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * 健康检查中列出的客户端数
+ */
+const MAX_REPORTED_CLIENTS = 20;
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface ClientState {
+  requests: TokenBucket;
+  sourceBytes: TokenBucket;
+  activeRenders: number;
+}
+
+export class RateLimiter {
+  private options: RateLimiterOptions;
+  private clients = new Map<string, ClientState>();
+  private rejected: Record<RateLimitReason, number> = { requests: 0, concurrency: 0, sourceBytes: 0 };
+  private lastSweep = 0;
+
+  constructor(options: Partial<RateLimiterOptions> = {}) {
+    const requestsPerMinute = options.requestsPerMinute ?? parseInt(process.env.MERMAID_RATE_LIMIT_PER_MINUTE || '60');
+    this.options = {
+      requestsPerMinute,
+      burst: options.burst ?? parseInt(process.env.MERMAID_RATE_LIMIT_BURST || String(Math.min(requestsPerMinute, 20))),
+      maxConcurrentRenders: options.maxConcurrentRenders ?? parseInt(process.env.MERMAID_MAX_CONCURRENT_RENDERS || '2'),
+      maxSourceBytesPerMinute: options.maxSourceBytesPerMinute ?? parseInt(process.env.MERMAID_MAX_SOURCE_KB_PER_MINUTE || '512') * 1024
+    };
+  }
+
+  /**
+   * 为客户端的一次请求申请配额，成功时返回释放函数（请求结束后必须调用），超出时抛出 RateLimitError
+   */
+  acquire(client: string, request: QuotaRequest): () => void {
+    const now = Date.now();
+    this.sweep(now);
+
+    const state = this.getState(client, now);
+    const { requestsPerMinute, burst, maxConcurrentRenders, maxSourceBytesPerMinute } = this.options;
+
+    // 先检查所有限制再扣减，被拒绝的请求不消耗配额
+    if (requestsPerMinute > 0) {
+      refill(state.requests, Math.max(burst, 1), requestsPerMinute, now);
+      if (state.requests.tokens < 1) {
+        this.reject('requests');
+        throw new RateLimitError(
+          `请求过于频繁（每分钟最多 ${requestsPerMinute} 次）`,
+          'requests',
+          msUntil(1 - state.requests.tokens, requestsPerMinute)
+        );
+      }
+    }
+
+    if (request.render && maxConcurrentRenders > 0 && state.activeRenders >= maxConcurrentRenders) {
+      this.reject('concurrency');
+      throw new RateLimitError(`同时进行的渲染过多（最多 ${maxConcurrentRenders} 个）`, 'concurrency', CONCURRENCY_RETRY_MS);
+    }
+
+    if (maxSourceBytesPerMinute > 0 && request.sourceBytes > 0) {
+      refill(state.sourceBytes, maxSourceBytesPerMinute, maxSourceBytesPerMinute, now);
+      // 超过整分钟配额的单个请求在配额完全恢复时放行（之后的请求需要等待更久），避免永远无法提交
+      const needed = Math.min(request.sourceBytes, maxSourceBytesPerMinute);
+      if (state.sourceBytes.tokens < needed) {
+        this.reject('sourceBytes');
+        throw new RateLimitError(
+          `提交的源码过多（每分钟最多 ${formatFileSize(maxSourceBytesPerMinute)}）`,
+          'sourceBytes',
+          msUntil(needed - state.sourceBytes.tokens, maxSourceBytesPerMinute)
+        );
+      }
+      state.sourceBytes.tokens -= request.sourceBytes;
+    }
+
+    if (requestsPerMinute > 0) {
+      state.requests.tokens -= 1;
+    }
+
+    if (!request.render) {
+      return () => {};
+    }
+    state.activeRenders++;
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        state.activeRenders--;
+      }
+    };
+  }
+
+  /**
+   * 当前限流状态
+   */
+  getUsage(): RateLimiterUsage {
+    const now = Date.now();
+    const { requestsPerMinute, burst, maxSourceBytesPerMinute } = this.options;
+    const clients: ClientUsage[] = [];
+    let activeRenders = 0;
+
+    for (const [client, state] of this.clients) {
+      refill(state.requests, Math.max(burst, 1), requestsPerMinute, now);
+      refill(state.sourceBytes, maxSourceBytesPerMinute, maxSourceBytesPerMinute, now);
+      activeRenders += state.activeRenders;
+      clients.push({
+        client,
+        requestsAvailable: Math.floor(state.requests.tokens),
+        activeRenders: state.activeRenders,
+        sourceBytesAvailable: Math.floor(state.sourceBytes.tokens)
+      });
+    }
+
+    // 按剩余请求数从少到多，最活跃的客户端排在前面
+    clients.sort((a, b) => b.activeRenders - a.activeRenders || a.requestsAvailable - b.requestsAvailable);
+    return {
+      limits: { ...this.options },
+      trackedClients: this.clients.size,
+      activeRenders,
+      rejected: { ...this.rejected },
+      clients: clients.slice(0, MAX_REPORTED_CLIENTS)
+    };
+  }
+
+  private getState(client: string, now: number): ClientState {
+    let state = this.clients.get(client);
+    if (!state) {
+      state = {
+        requests: { tokens: Math.max(this.options.burst, 1), updatedAt: now },
+        sourceBytes: { tokens: this.options.maxSourceBytesPerMinute, updatedAt: now },
+        activeRenders: 0
+      };
+      this.clients.set(client, state);
+    }
+    return state;
+  }
+
+  private reject(reason: RateLimitReason): void {
+    this.rejected[reason]++;
+  }
+
+  /**
+   * 移除配额已完全恢复且没有进行中渲染的客户端
+   */
+  private sweep(now: number): void {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) {
+      return;
+    }
+    this.lastSweep = now;
+
+    const { requestsPerMinute, burst, maxSourceBytesPerMinute } = this.options;
+    for (const [client, state] of this.clients) {
+      refill(state.requests, Math.max(burst, 1), requestsPerMinute, now);
+      refill(state.sourceBytes, maxSourceBytesPerMinute, maxSourceBytesPerMinute, now);
+      if (
+        state.activeRenders === 0 &&
+        state.requests.tokens >= Math.max(burst, 1) &&
+        state.sourceBytes.tokens >= maxSourceBytesPerMinute
+      ) {
+        this.clients.delete(client);
+      }
+    }
+  }
+}
+
+/**
+ * 统计工具参数或请求体中的Mermaid源码字节数（单个图表、PDF的 diagrams 和批量渲染的 items）
+ */
+export function countSourceBytes(params: unknown): number {
+  if (!params || typeof params !== 'object') {
+    return 0;
+  }
+
+  const { mermaidCode, diagrams, items } = params as { mermaidCode?: unknown; diagrams?: unknown; items?: unknown };
+  let bytes = typeof mermaidCode === 'string' ? Buffer.byteLength(mermaidCode) : 0;
+  for (const list of [diagrams, items]) {
+    if (Array.isArray(list)) {
+      for (const item of list) {
+        bytes += countSourceBytes({ mermaidCode: (item as { mermaidCode?: unknown } | null)?.mermaidCode });
+      }
+    }
+  }
+  return bytes;
+}
+
+/**
+ * 按经过的时间补充令牌，不超过容量
+ */
+function refill(bucket: TokenBucket, capacity: number, perMinute: number, now: number): void {
+  if (perMinute <= 0) {
+    return;
+  }
+  bucket.tokens = Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) / 60000) * perMinute);
+  bucket.updatedAt = now;
+}
+
+/**
+ * 补充指定数量的令牌需要的毫秒数
+ */
+function msUntil(tokens: number, perMinute: number): number {
+  return Math.ceil((tokens / perMinute) * 60000);
+}
@@ -0,0 +1,86 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { RenderCache } from './render-cache.js';
+
+const MEMORY_ONLY = { maxEntries: 10, maxMemoryBytes: 1024, ttlMs: 60000, maxDiskBytes: 0 };
+
+describe('RenderCache.createKey', () => {
+  it('与参数的键顺序无关，忽略未定义的参数', () => {
+    assert.equal(
+      RenderCache.createKey({ mermaidCode: 'graph TD', theme: 'dark', config: { a: 1, b: [1, 2] } }),
+      RenderCache.createKey({ config: { b: [1, 2], a: 1 }, theme: 'dark', outputPath: undefined, mermaidCode: 'graph TD' })
+    );
+  });
+
+  it('渲染器和降级设置不同时得到不同的键', () => {
+    const parts = { mermaidCode: 'graph TD', format: 'svg', renderer: 'auto', allowFallback: true };
+    const key = RenderCache.createKey(parts);
+    assert.notEqual(RenderCache.createKey({ ...parts, renderer: 'jsdom' }), key);
+    assert.notEqual(RenderCache.createKey({ ...parts, allowFallback: false }), key);
+  });
+});
+
+describe('RenderCache', () => {
+  it('命中内存缓存并统计命中次数', async () => {
+    const cache = new RenderCache(MEMORY_ONLY);
+    await cache.set('k', Buffer.from('<svg/>'), { backend: 'jsdom' });
+
+    const hit = await cache.get('k');
+    assert.equal(hit?.tier, 'memory');
+    assert.equal(hit?.value.toString(), '<svg/>');
+    assert.deepEqual(hit?.metadata, { backend: 'jsdom' });
+    assert.equal(await cache.get('missing'), undefined);
+    assert.deepEqual(cache.getStats(), { hits: 1, misses: 1, memoryEntries: 1, memoryBytes: 6, diskEnabled: false });
+  });
+
+  it('按条目数和字节数淘汰最久未使用的条目', async () => {
+    const cache = new RenderCache({ ...MEMORY_ONLY, maxEntries: 2, maxMemoryBytes: 10 });
+    await cache.set('a', Buffer.from('aaa'));
+    await cache.set('b', Buffer.from('bbb'));
+    await cache.get('a');
+    await cache.set('c', Buffer.from('ccc'));
+    assert.equal(await cache.get('b'), undefined);
+    assert.ok(await cache.get('a'));
+
+    await cache.set('big', Buffer.from('x'.repeat(11)));
+    assert.equal(await cache.get('big'), undefined);
+    await cache.set('d', Buffer.from('dddddddd'));
+    assert.equal(cache.getStats().memoryEntries, 1);
+  });
+
+  it('过期条目视为未命中', async () => {
+    const cache = new RenderCache({ ...MEMORY_ONLY, ttlMs: -1 });
+    await cache.set('k', Buffer.from('v'));
+    assert.equal(await cache.get('k'), undefined);
+    assert.equal(cache.getStats().memoryEntries, 0);
+  });
+
+  describe('磁盘缓存', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mermaid-cache-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('新实例从磁盘读取并清空', async () => {
+      const key = RenderCache.createKey({ mermaidCode: 'graph TD' });
+      await new RenderCache({ ...MEMORY_ONLY, diskDir: dir, maxDiskBytes: 1024 }).set(key, Buffer.from('png'), { width: 1 });
+
+      const cache = new RenderCache({ ...MEMORY_ONLY, diskDir: dir, maxDiskBytes: 1024 });
+      const hit = await cache.get(key);
+      assert.equal(hit?.tier, 'disk');
+      assert.deepEqual(hit?.metadata, { width: 1 });
+      assert.equal((await cache.get(key))?.tier, 'memory');
+
+      assert.deepEqual(await cache.clear(), { memoryEntries: 1, diskEntries: 1 });
+      assert.deepEqual(fs.readdirSync(dir), []);
+    });
+  });
+});
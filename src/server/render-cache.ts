@@ -0,0 +1,303 @@
+/**
+ * 渲染缓存模块
+ * 以渲染参数的哈希为键，缓存渲染结果：内存LRU + 可选的磁盘目录
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { createLogger, errorFields } from './logger.js';
+
+const log = createLogger('render-cache');
+
+/**
+ * 缓存键格式版本，缓存内容结构变化时递增以使旧缓存失效
+ */
+const CACHE_FORMAT_VERSION = 1;
+
+/**
+ * 渲染缓存配置
+ */
+export interface RenderCacheOptions {
+  /** 内存中最多缓存的条目数，0表示禁用内存缓存 */
+  maxEntries: number;
+  /** 内存缓存最大字节数 */
+  maxMemoryBytes: number;
+  /** 条目有效期（毫秒） */
+  ttlMs: number;
+  /** 磁盘缓存目录，未设置时不使用磁盘缓存 */
+  diskDir?: string;
+  /** 磁盘缓存最大字节数 */
+  maxDiskBytes: number;
+}
+
+/**
+ * 缓存条目
+ */
+export interface CacheEntry {
+  value: Buffer;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * 缓存查询结果
+ */
+export interface CacheLookup extends CacheEntry {
+  tier: 'memory' | 'disk';
+}
+
+/**
+ * 缓存状态（用于在工具结果中报告）
+ */
+export type CacheStatus = 'memory' | 'disk' | 'miss';
+
+interface MemoryEntry extends CacheEntry {
+  size: number;
+  expiresAt: number;
+}
+
+/**
+ * 缓存统计信息
+ */
+export interface RenderCacheStats {
+  hits: number;
+  misses: number;
+  memoryEntries: number;
+  memoryBytes: number;
+  diskEnabled: boolean;
+}
+
+export class RenderCache {
+  private options: RenderCacheOptions;
+  private entries = new Map<string, MemoryEntry>();
+  private memoryBytes = 0;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(options: Partial<RenderCacheOptions> = {}) {
+    this.options = {
+      maxEntries: options.maxEntries ?? parseInt(process.env.MERMAID_CACHE_MAX_ENTRIES || '200'),
+      maxMemoryBytes: options.maxMemoryBytes ?? parseInt(process.env.MERMAID_CACHE_MAX_MEMORY_MB || '50') * 1024 * 1024,
+      ttlMs: options.ttlMs ?? parseInt(process.env.MERMAID_CACHE_TTL_SECONDS || '86400') * 1000,
+      diskDir: options.diskDir ?? process.env.MERMAID_CACHE_DIR,
+      maxDiskBytes: options.maxDiskBytes ?? parseInt(process.env.MERMAID_CACHE_MAX_DISK_MB || '500') * 1024 * 1024
+    };
+  }
+
+  /**
+   * 根据渲染参数生成内容寻址的缓存键
+   */
+  static createKey(parts: Record<string, unknown>): string {
+    return createHash('sha256')
+      .update(stableStringify({ cacheFormat: CACHE_FORMAT_VERSION, ...parts }))
+      .digest('hex');
+  }
+
+  /**
+   * 查询缓存：先查内存，再查磁盘（磁盘命中时提升到内存）
+   */
+  async get(key: string): Promise<CacheLookup | undefined> {
+    const memoryEntry = this.entries.get(key);
+    if (memoryEntry) {
+      if (memoryEntry.expiresAt > Date.now()) {
+        // 重新插入以更新LRU顺序
+        this.entries.delete(key);
+        this.entries.set(key, memoryEntry);
+        this.hits++;
+        return { value: memoryEntry.value, metadata: memoryEntry.metadata, tier: 'memory' };
+      }
+      this.deleteMemoryEntry(key);
+    }
+
+    const diskEntry = await this.readDisk(key);
+    if (diskEntry) {
+      this.setMemory(key, diskEntry);
+      this.hits++;
+      return { ...diskEntry, tier: 'disk' };
+    }
+
+    this.misses++;
+    return undefined;
+  }
+
+  /**
+   * 写入缓存（内存和磁盘）
+   */
+  async set(key: string, value: Buffer, metadata: Record<string, unknown> = {}): Promise<void> {
+    const entry = { value, metadata };
+    this.setMemory(key, entry);
+    await this.writeDisk(key, entry);
+  }
+
+  /**
+   * 清空缓存，返回清除的条目数
+   */
+  async clear(): Promise<{ memoryEntries: number; diskEntries: number }> {
+    const memoryEntries = this.entries.size;
+    this.entries.clear();
+    this.memoryBytes = 0;
+
+    let diskEntries = 0;
+    if (this.options.diskDir) {
+      for (const file of await this.listDiskFiles()) {
+        await fs.rm(path.join(this.options.diskDir, `${file.key}.bin`), { force: true });
+        await fs.rm(path.join(this.options.diskDir, `${file.key}.json`), { force: true });
+        diskEntries++;
+      }
+    }
+
+    return { memoryEntries, diskEntries };
+  }
+
+  /**
+   * 获取缓存统计信息
+   */
+  getStats(): RenderCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      memoryEntries: this.entries.size,
+      memoryBytes: this.memoryBytes,
+      diskEnabled: Boolean(this.options.diskDir)
+    };
+  }
+
+  /**
+   * 写入内存缓存并按条目数和字节数淘汰最久未使用的条目
+   */
+  private setMemory(key: string, entry: CacheEntry): void {
+    const size = entry.value.length;
+    if (this.options.maxEntries <= 0 || size > this.options.maxMemoryBytes) {
+      return;
+    }
+
+    this.deleteMemoryEntry(key);
+    this.entries.set(key, { ...entry, size, expiresAt: Date.now() + this.options.ttlMs });
+    this.memoryBytes += size;
+
+    while (this.entries.size > this.options.maxEntries || this.memoryBytes > this.options.maxMemoryBytes) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) {
+        break;
+      }
+      this.deleteMemoryEntry(oldestKey);
+    }
+  }
+
+  private deleteMemoryEntry(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.memoryBytes -= entry.size;
+      this.entries.delete(key);
+    }
+  }
+
+  /**
+   * 从磁盘读取缓存，过期或损坏时视为未命中
+   */
+  private async readDisk(key: string): Promise<CacheEntry | undefined> {
+    if (!this.options.diskDir) {
+      return undefined;
+    }
+
+    const binPath = path.join(this.options.diskDir, `${key}.bin`);
+    const metaPath = path.join(this.options.diskDir, `${key}.json`);
+    try {
+      const stat = await fs.stat(binPath);
+      if (stat.mtimeMs + this.options.ttlMs <= Date.now()) {
+        await fs.rm(binPath, { force: true });
+        await fs.rm(metaPath, { force: true });
+        return undefined;
+      }
+
+      const [value, metadata] = await Promise.all([
+        fs.readFile(binPath),
+        fs.readFile(metaPath, 'utf8')
+      ]);
+      return { value, metadata: JSON.parse(metadata) };
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * 写入磁盘缓存，失败时只记录日志，不影响渲染
+   */
+  private async writeDisk(key: string, entry: CacheEntry): Promise<void> {
+    if (!this.options.diskDir) {
+      return;
+    }
+
+    try {
+      await fs.mkdir(this.options.diskDir, { recursive: true });
+      await fs.writeFile(path.join(this.options.diskDir, `${key}.json`), JSON.stringify(entry.metadata), 'utf8');
+      await fs.writeFile(path.join(this.options.diskDir, `${key}.bin`), entry.value);
+      await this.pruneDisk();
+    } catch (error) {
+      log.warn('写入磁盘缓存失败', errorFields(error));
+    }
+  }
+
+  /**
+   * 删除过期条目，并在超过容量时按修改时间删除最旧的条目
+   */
+  private async pruneDisk(): Promise<void> {
+    const diskDir = this.options.diskDir!;
+    const files = await this.listDiskFiles();
+    const now = Date.now();
+
+    let totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+    for (const file of files.sort((a, b) => a.mtimeMs - b.mtimeMs)) {
+      const expired = file.mtimeMs + this.options.ttlMs <= now;
+      if (!expired && totalBytes <= this.options.maxDiskBytes) {
+        continue;
+      }
+      await fs.rm(path.join(diskDir, `${file.key}.bin`), { force: true });
+      await fs.rm(path.join(diskDir, `${file.key}.json`), { force: true });
+      totalBytes -= file.size;
+    }
+  }
+
+  /**
+   * 列出磁盘缓存中的条目
+   */
+  private async listDiskFiles(): Promise<Array<{ key: string; size: number; mtimeMs: number }>> {
+    const diskDir = this.options.diskDir!;
+    let names: string[];
+    try {
+      names = await fs.readdir(diskDir);
+    } catch {
+      return [];
+    }
+
+    const files: Array<{ key: string; size: number; mtimeMs: number }> = [];
+    for (const name of names) {
+      if (!/^[0-9a-f]{64}\.bin$/.test(name)) {
+        continue;
+      }
+      try {
+        const stat = await fs.stat(path.join(diskDir, name));
+        files.push({ key: name.slice(0, -4), size: stat.size, mtimeMs: stat.mtimeMs });
+      } catch {
+        // 并发删除时文件可能已不存在
+      }
+    }
+    return files;
+  }
+}
+
+/**
+ * 键顺序无关的JSON序列化，保证相同参数得到相同的哈希
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
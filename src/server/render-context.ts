@@ -0,0 +1,169 @@
+/**
+ * 渲染请求上下文模块
+ * 合并客户端取消和请求超时为同一个中止信号，并按渲染阶段上报进度，同时记录发起请求的客户端
+ */
+
+/**
+ * 渲染阶段（按执行顺序）
+ */
+export type RenderStage = 'launching-browser' | 'loading-mermaid' | 'rendering' | 'post-processing' | 'writing-file';
+
+const RENDER_STAGES: RenderStage[] = ['launching-browser', 'loading-mermaid', 'rendering', 'post-processing', 'writing-file'];
+
+const STAGE_MESSAGES: Record<RenderStage, string> = {
+  'launching-browser': '启动浏览器',
+  'loading-mermaid': '加载Mermaid',
+  rendering: '渲染图表',
+  'post-processing': '后处理',
+  'writing-file': '写入文件'
+};
+
+/**
+ * 进度信息
+ */
+export interface RenderProgress {
+  progress: number;
+  total: number;
+  message: string;
+}
+
+/**
+ * 渲染上下文配置
+ */
+export interface RenderContextOptions {
+  /** 上级中止信号（如MCP请求的取消信号） */
+  signal?: AbortSignal;
+  /** 超时时间（毫秒），未设置时不限时 */
+  timeoutMs?: number;
+  /** 进度回调，未设置时不上报进度 */
+  onProgress?: (progress: RenderProgress) => void;
+  /** 发起请求的客户端（图表资源的所有者），未设置时不区分所有者（如stdio） */
+  owner?: string;
+}
+
+export class RenderContext {
+  readonly owner?: string;
+  private controller = new AbortController();
+  private timer?: NodeJS.Timeout;
+  private detachParent?: () => void;
+  private onProgress?: (progress: RenderProgress) => void;
+  private lastProgress = 0;
+
+  constructor(options: RenderContextOptions = {}) {
+    this.onProgress = options.onProgress;
+    this.owner = options.owner;
+
+    const parent = options.signal;
+    if (parent) {
+      const onAbort = () => {
+        const reason = parent.reason instanceof Error ? parent.reason.message : parent.reason;
+        this.controller.abort(new Error(reason ? `请求已取消: ${reason}` : '请求已取消'));
+      };
+      if (parent.aborted) {
+        onAbort();
+      } else {
+        parent.addEventListener('abort', onAbort, { once: true });
+        this.detachParent = () => parent.removeEventListener('abort', onAbort);
+      }
+    }
+
+    if (options.timeoutMs !== undefined) {
+      this.timer = setTimeout(() => {
+        // 与 AbortSignal.timeout() 的错误同名，便于调用方区分超时和取消
+        const error = new Error(`请求超时（${options.timeoutMs}ms）`);
+        error.name = 'TimeoutError';
+        this.controller.abort(error);
+      }, options.timeoutMs);
+    }
+  }
+
+  /**
+   * 取消或超时时触发的中止信号
+   */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * 上报进入某个渲染阶段
+   */
+  reportStage(stage: RenderStage): void {
+    this.reportProgress(RENDER_STAGES.indexOf(stage) + 1, RENDER_STAGES.length, STAGE_MESSAGES[stage]);
+  }
+
+  /**
+   * 上报进度，进度只增不减（降级重试或命中缓存时跳过的阶段不会回退）
+   */
+  reportProgress(progress: number, total: number, message: string): void {
+    if (!this.onProgress || progress <= this.lastProgress) {
+      return;
+    }
+    this.lastProgress = progress;
+    this.onProgress({ progress, total, message });
+  }
+
+  /**
+   * 已取消或超时时抛出中止原因
+   */
+  throwIfAborted(): void {
+    throwIfAborted(this.signal);
+  }
+
+  /**
+   * 共享中止信号但不上报进度的子上下文（用于批量任务中的单个图表）
+   */
+  withoutProgress(): RenderContext {
+    return new RenderContext({ signal: this.signal, owner: this.owner });
+  }
+
+  /**
+   * 释放定时器和监听器
+   */
+  dispose(): void {
+    clearTimeout(this.timer);
+    this.detachParent?.();
+  }
+}
+
+/**
+ * 获取中止原因
+ */
+export function getAbortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new Error('请求已取消');
+}
+
+/**
+ * 信号已中止时抛出中止原因
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw getAbortReason(signal);
+  }
+}
+
+/**
+ * 等待Promise，信号中止时立即拒绝（不会停止原操作，调用方需自行清理）
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(getAbortReason(signal));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(getAbortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
@@ -1,6 +1,6 @@
 /**
  * Mermaid Chart MCP服务器
- * 核心功能：接收Mermaid代码 → 渲染SVG → 创建临时文件
+ * 核心功能：接收Mermaid代码 → 渲染SVG → 写入输出目录
  * 
  * 预期工作流程：
  * 1. AI助手或应用生成Mermaid代码
@@ -10,368 +10,2430 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
   CallToolRequestSchema,
-  ListToolsRequestSchema
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema
 } from '@modelcontextprotocol/sdk/types.js';
 
-import * as fs from 'fs/promises';
-import * as path from 'path';
-import * as os from 'os';
 import { JSDOM } from 'jsdom';
-import puppeteer, { Browser } from 'puppeteer';
-import mermaid from 'mermaid';
-import createDOMPurify from 'dompurify';
-import { validateInput, sanitizeFileName } from './utils.js';
+import type { Page } from 'puppeteer';
+import { getMermaidVersion } from './browser-assets.js';
+import { BrowserPool, BrowserPoolOptions } from './browser-pool.js';
+import { JsdomWorkerPool, JsdomWorkerPoolOptions } from './jsdom-worker-pool.js';
+import { RenderContext, abortable } from './render-context.js';
+import {
+  MermaidSyntaxError,
+  SyntaxDiagnostic,
+  buildSyntaxDiagnostics,
+  createDiagnostic,
+  formatDiagnostics,
+  preprocessWithOrigins
+} from './syntax-diagnostics.js';
+import { DiagramTypeInfo, DIAGRAM_KEYWORDS, detectDiagramType, diagramTypeFromDetector, formatDiagramType } from './diagram-types.js';
+import { LintWarning, lintMermaid, fixMermaid } from './mermaid-linter.js';
+import { DiagramResourceStore, DiagramResourceStoreOptions, DIAGRAM_URI_PREFIX } from './diagram-resources.js';
+import { MERMAID_PROMPTS, getMermaidPrompt } from './mermaid-prompts.js';
+import { OutputStore, OutputStoreOptions } from './output-store.js';
+import { RenderCache, RenderCacheOptions, CacheEntry, CacheStatus } from './render-cache.js';
+import type { ApiScope } from './auth.js';
+import { RateLimiter, RateLimiterOptions, RateLimiterUsage, QuotaRequest, RateLimitError, countSourceBytes } from './rate-limiter.js';
+import { CollectedMetric, MermaidMetrics, RenderEvent } from './metrics.js';
+import { MermaidUserConfig, validateMermaidConfig, buildMermaidConfig, mergeMermaidConfig } from './mermaid-config.js';
+import { createLogger, createRequestId, errorFields, withLogContext } from './logger.js';
+import {
+  validateInput,
+  validateImageOptions,
+  validatePdfOptions,
+  validateBatchOptions,
+  validateRendererOptions,
+  validateTimeout,
+  validateOutputMode,
+  validateOutputPath,
+  parseSvgDimensions,
+  escapeHtml,
+  formatFileSize,
+  InputValidationError,
+  InputLimits,
+  DEFAULT_INPUT_LIMITS,
+  MermaidTheme,
+  mapWithConcurrency
+} from './utils.js';
+
+const log = createLogger('mcp');
+
+/**
+ * 位图导出格式
+ */
+export type ImageFormat = 'png' | 'jpeg' | 'webp';
+
+/**
+ * 位图渲染选项
+ */
+interface ImageRenderOptions {
+  format: ImageFormat;
+  scale: number;
+  width?: number;
+  height?: number;
+  backgroundColor: string;
+  quality: number;
+}
+
+/**
+ * 位图渲染结果
+ */
+interface ImageRenderResult {
+  buffer: Buffer;
+  width: number;
+  height: number;
+}
+
+/**
+ * 渲染工具中 config 参数的输入描述
+ */
+const CONFIG_INPUT_SCHEMA = {
+  type: 'object',
+  description: 'Mermaid配置（可选），如 themeVariables、themeCSS、fontFamily、flowchart.curve、sequence.mirrorActors 等；' +
+    '不允许覆盖 securityLevel 等安全相关配置。自定义颜色请配合 base 主题使用',
+  properties: {
+    themeVariables: { type: 'object', description: '主题变量，如 primaryColor、lineColor' },
+    themeCSS: { type: 'string', description: '追加到图表样式表的CSS' },
+    fontFamily: { type: 'string', description: '字体' },
+    flowchart: { type: 'object', description: '流程图配置，如 curve、nodeSpacing、rankSpacing' },
+    sequence: { type: 'object', description: '序列图配置，如 mirrorActors、showSequenceNumbers' }
+  }
+};
+
+/**
+ * 实际产生输出的渲染器
+ */
+export type RendererBackend = 'puppeteer' | 'jsdom' | 'static';
+
+/**
+ * 调用方可选择的渲染器，auto 表示依次尝试 Puppeteer 和 JSDOM
+ */
+export type RendererChoice = 'auto' | RendererBackend;
+
+/**
+ * 渲染器选择选项
+ */
+interface RendererOptions {
+  renderer: RendererChoice;
+  allowFallback: boolean;
+}
+
+/**
+ * SVG渲染结果
+ */
+interface SvgRenderResult {
+  svg: string;
+  backend: RendererBackend;
+  fallbackReasons: string[];
+  cache: CacheStatus;
+}
+
+/**
+ * 渲染工具中 renderer 和 allowFallback 参数的输入描述
+ */
+const RENDERER_INPUT_SCHEMA = {
+  renderer: {
+    type: 'string',
+    enum: ['auto', 'puppeteer', 'jsdom', 'static'],
+    description: '渲染器：auto依次尝试Puppeteer和JSDOM；static直接生成包含源码的占位图',
+    default: 'auto'
+  },
+  allowFallback: {
+    type: 'boolean',
+    description: '指定的渲染器失败时是否降级到其他渲染器（最终为静态占位图）；为false时失败直接返回错误',
+    default: true
+  }
+};
+
+/**
+ * 渲染和验证工具中 timeoutMs 参数的输入描述
+ */
+const TIMEOUT_INPUT_SCHEMA = {
+  type: 'number',
+  description: '请求超时时间（毫秒），范围1000-600000，默认60000（可通过配置文件的 limits.renderTimeoutMs 或 MERMAID_RENDER_TIMEOUT_MS 修改）',
+  minimum: 1000,
+  maximum: 600000
+};
+
+/**
+ * 渲染结果的返回方式
+ */
+export type OutputMode = 'inline' | 'file' | 'resource' | 'none';
+
+/**
+ * 渲染工具中 outputMode 参数的输入描述
+ */
+const OUTPUT_MODE_INPUT_SCHEMA = {
+  type: 'string',
+  enum: ['inline', 'file', 'resource', 'none'],
+  description: '返回方式：inline返回MCP图片内容；file只返回输出文件路径；resource返回嵌入资源（mermaid://diagrams/...）；none只返回元数据',
+  default: 'inline'
+};
+
+/**
+ * 输出路径参数的JSON Schema
+ */
+const OUTPUT_PATH_INPUT_SCHEMA = {
+  type: 'string',
+  description: '输出文件相对于输出目录（MERMAID_OUTPUT_DIR）的路径，如 docs/架构图.svg（可选，默认按标题和内容哈希命名；扩展名可省略）',
+  maxLength: 255
+};
+
+/**
+ * 工具返回的内容项（文本、图片或嵌入资源）
+ */
+type ToolContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string }
+  | { type: 'resource'; resource: { uri: string; mimeType: string; text: string } | { uri: string; mimeType: string; blob: string } };
+
+/**
+ * 批量渲染支持的输出格式
+ */
+export type BatchFormat = 'svg' | ImageFormat | 'pdf';
+
+/**
+ * 批量渲染中的单个图表
+ */
+interface BatchItem {
+  id?: string;
+  mermaidCode: string;
+  title?: string;
+  theme?: string;
+  config?: MermaidUserConfig;
+  format?: BatchFormat;
+  outputPath?: string;
+}
+
+/**
+ * 批量渲染中单个图表的结果
+ */
+interface BatchItemResult {
+  id: string;
+  success: boolean;
+  format: BatchFormat;
+  filePath?: string;
+  diagramType?: string;
+  /** 图表资源URI（PDF不登记为资源） */
+  resourceUri?: string;
+  renderer?: RendererBackend;
+  fallbackReasons?: string[];
+  cache?: CacheStatus;
+  error?: string;
+}
+
+/**
+ * PDF纸张尺寸（毫米，纵向宽x高）
+ */
+const PDF_PAGE_SIZES = {
+  A3: [297, 420],
+  A4: [210, 297],
+  A5: [148, 210],
+  Letter: [215.9, 279.4],
+  Legal: [215.9, 355.6],
+  Tabloid: [279.4, 431.8]
+} as const;
+
+export type PdfPageSize = keyof typeof PDF_PAGE_SIZES;
+
+/**
+ * PDF页边距（毫米）
+ */
+const PDF_MARGIN_MM = 12;
+
+/**
+ * PDF渲染选项
+ */
+interface PdfRenderOptions {
+  pageSize: PdfPageSize;
+  orientation: 'portrait' | 'landscape';
+  showTitles: boolean;
+  fitToPage: boolean;
+}
+
+/**
+ * 直接渲染的请求参数（HTTP接口使用）
+ */
+export interface DiagramRenderRequest {
+  mermaidCode: string;
+  title?: string;
+  theme?: string;
+  config?: MermaidUserConfig;
+  format?: 'svg' | ImageFormat;
+  renderer?: RendererChoice;
+  allowFallback?: boolean;
+  scale?: number;
+  width?: number;
+  height?: number;
+  backgroundColor?: string;
+  quality?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * 直接渲染的结果
+ */
+export interface DiagramRenderOutput {
+  data: Buffer;
+  mimeType: string;
+  format: 'svg' | ImageFormat;
+  diagramType: DiagramTypeInfo;
+  renderer: RendererBackend;
+  fallbackReasons: string[];
+  width?: number;
+  height?: number;
+  cache: CacheStatus;
+}
+
+/**
+ * 语法验证结果
+ */
+export interface DiagramValidationOutput {
+  valid: boolean;
+  validator: RendererBackend;
+  diagramType: DiagramTypeInfo;
+  diagnostics: SyntaxDiagnostic[];
+}
+
+/**
+ * 服务器配置
+ */
+export interface SimpleMermaidMCPServerOptions {
+  /** 浏览器池配置 */
+  browserPool?: Partial<BrowserPoolOptions>;
+  /** JSDOM工作线程池配置 */
+  jsdomPool?: Partial<JsdomWorkerPoolOptions>;
+  /** 渲染缓存配置 */
+  renderCache?: Partial<RenderCacheOptions>;
+  /** 图表资源配置 */
+  diagramResources?: Partial<DiagramResourceStoreOptions>;
+  /** 输出目录配置 */
+  outputStore?: Partial<OutputStoreOptions>;
+  /** 限流和配额配置 */
+  rateLimit?: Partial<RateLimiterOptions>;
+  /** 输入限制 */
+  limits?: Partial<InputLimits>;
+  /** 渲染默认值 */
+  render?: Partial<RenderDefaults>;
+}
+
+/**
+ * 渲染默认值
+ */
+export interface RenderDefaults {
+  /** 未指定主题时使用的主题 */
+  theme: MermaidTheme;
+  /** 默认的Mermaid配置，与请求中的 config 合并（请求中的值优先） */
+  mermaidConfig: MermaidUserConfig;
+  /** renderer 为 auto 时依次尝试的渲染器，允许降级时按此顺序尝试其余渲染器；验证也按此顺序 */
+  renderers: RendererBackend[];
+  /** 未指定 timeoutMs 时的请求超时时间（毫秒） */
+  timeoutMs: number;
+}
+
+/**
+ * 会话连接选项
+ */
+export interface SessionOptions {
+  /** 会话关闭时调用 */
+  onClose?: () => void;
+  /** 会话可以使用的权限范围，未设置时可以使用所有工具（如stdio） */
+  scopes?: ApiScope[];
+  /** 用于限流的客户端标识，未设置时不限流（如stdio） */
+  clientId?: string;
+  /** 传输方式（用于指标），默认为 stdio */
+  transport?: 'stdio' | 'sse' | 'streamable-http';
+}
+
+/**
+ * 各工具需要的权限范围
+ */
+const TOOL_SCOPES: Record<string, ApiScope> = {
+  render_mermaid_to_svg: 'render',
+  render_mermaid_to_png: 'render',
+  render_mermaid_to_pdf: 'render',
+  render_mermaid_batch: 'render',
+  validate_mermaid_syntax: 'validate',
+  detect_diagram_type: 'validate',
+  lint_mermaid: 'validate',
+  fix_mermaid: 'validate',
+  list_rendered_files: 'admin',
+  delete_rendered_file: 'admin',
+  clear_render_cache: 'admin',
+  get_server_stats: 'admin'
+};
 
 export class SimpleMermaidMCPServer {
-  private server: Server;
-  private browser?: Browser;
+  /** 已连接的会话，每个会话（stdio、SSE或Streamable HTTP连接）一个MCP服务器实例 */
+  private sessions = new Map<Server, NonNullable<SessionOptions['transport']>>();
+  private browserPool: BrowserPool;
+  private jsdomPool: JsdomWorkerPool;
+  private renderCache: RenderCache;
+  private diagramResources: DiagramResourceStore;
+  private outputStore: OutputStore;
+  private rateLimiter: RateLimiter;
+  private metrics = new MermaidMetrics();
+  private inputLimits: InputLimits;
+  private renderDefaults: RenderDefaults;
+
+  constructor(options: SimpleMermaidMCPServerOptions = {}) {
+    this.inputLimits = { ...DEFAULT_INPUT_LIMITS, ...options.limits };
+    this.renderDefaults = {
+      theme: options.render?.theme ?? 'default',
+      mermaidConfig: options.render?.mermaidConfig ?? {},
+      renderers: options.render?.renderers ?? ['puppeteer', 'jsdom', 'static'],
+      timeoutMs: options.render?.timeoutMs ?? 60000
+    };
+    this.browserPool = new BrowserPool(options.browserPool);
+    this.jsdomPool = new JsdomWorkerPool(options.jsdomPool);
+    this.renderCache = new RenderCache(options.renderCache);
+    this.outputStore = new OutputStore(options.outputStore);
+    this.rateLimiter = new RateLimiter(options.rateLimit);
+    this.diagramResources = new DiagramResourceStore(options.diagramResources, () => {
+      // 资源在会话间共享，通知所有会话；尚未完成初始化的会话无法发送通知，忽略即可
+      for (const server of this.sessions.keys()) {
+        server.sendResourceListChanged().catch(() => {});
+      }
+    });
+    this.metrics.addCollector(() => this.collectRuntimeMetrics());
+  }
 
-  constructor() {
-    this.server = new Server(
+  /**
+   * 为一个传输连接创建独立的MCP服务器实例（共享浏览器池、缓存和资源），连接关闭时移除
+   */
+  async connect(transport: Transport, options: SessionOptions = {}): Promise<Server> {
+    const server = new Server(
       {
         name: 'mermaid-chart-mcp',
         version: '1.0.0'
       },
       {
         capabilities: {
-          tools: {}
+          tools: {},
+          resources: { listChanged: true },
+          prompts: {}
         }
       }
     );
 
-    this.setupToolHandlers();
+    this.setupToolHandlers(server, options.scopes, options.clientId);
+    this.setupResourceHandlers(server, options.scopes, options.clientId);
+    this.setupPromptHandlers(server);
+
+    server.onclose = () => {
+      this.sessions.delete(server);
+      options.onClose?.();
+    };
+    this.sessions.set(server, options.transport ?? 'stdio');
+    await server.connect(transport);
+    return server;
+  }
+
+  /**
+   * 当前连接的会话数
+   */
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * 为客户端的一次请求申请限流配额，返回请求结束后调用的释放函数，超出时抛出 RateLimitError
+   */
+  acquireQuota(clientId: string, request: QuotaRequest): () => void {
+    return this.rateLimiter.acquire(clientId, request);
+  }
+
+  /**
+   * 当前的限流状态和各客户端的使用情况
+   */
+  getRateLimitUsage(): RateLimiterUsage {
+    return this.rateLimiter.getUsage();
+  }
+
+  /**
+   * Prometheus文本格式的运行指标
+   */
+  getPrometheusMetrics(): string {
+    return this.metrics.toPrometheus();
+  }
+
+  /**
+   * 导出时从浏览器池、缓存、会话和限流器读取的指标
+   */
+  private collectRuntimeMetrics(): CollectedMetric[] {
+    const browser = this.browserPool.getStats();
+    const cache = this.renderCache.getStats();
+    const rateLimit = this.rateLimiter.getUsage();
+    const sessions = { stdio: 0, sse: 0, 'streamable-http': 0 };
+    for (const transport of this.sessions.values()) {
+      sessions[transport]++;
+    }
+
+    return [
+      {
+        name: 'mermaid_active_sessions',
+        help: '当前连接的MCP会话数',
+        type: 'gauge',
+        values: Object.entries(sessions).map(([transport, value]) => ({ labels: { transport }, value }))
+      },
+      { name: 'mermaid_browser_launches_total', help: '浏览器启动次数', type: 'counter', values: [{ value: browser.launches }] },
+      { name: 'mermaid_browser_launch_failures_total', help: '浏览器启动失败次数', type: 'counter', values: [{ value: browser.launchFailures }] },
+      { name: 'mermaid_browser_crashes_total', help: '页面崩溃和浏览器意外断开的次数', type: 'counter', values: [{ value: browser.crashes }] },
+      {
+        name: 'mermaid_browser_pages',
+        help: '浏览器池中的页面数',
+        type: 'gauge',
+        values: [
+          { labels: { state: 'idle' }, value: browser.idlePages },
+          { labels: { state: 'busy' }, value: browser.pages - browser.idlePages }
+        ]
+      },
+      { name: 'mermaid_render_cache_memory_entries', help: '内存缓存条目数', type: 'gauge', values: [{ value: cache.memoryEntries }] },
+      { name: 'mermaid_render_cache_memory_bytes', help: '内存缓存占用字节数', type: 'gauge', values: [{ value: cache.memoryBytes }] },
+      {
+        name: 'mermaid_rate_limit_rejections_total',
+        help: '因限流被拒绝的请求数',
+        type: 'counter',
+        values: Object.entries(rateLimit.rejected).map(([reason, value]) => ({ labels: { reason }, value }))
+      },
+      { name: 'mermaid_rate_limit_active_renders', help: '占用并发配额的进行中渲染数', type: 'gauge', values: [{ value: rateLimit.activeRenders }] }
+    ];
+  }
+
+  private setupPromptHandlers(server: Server): void {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return { prompts: MERMAID_PROMPTS };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { description, messages } = getMermaidPrompt(request.params.name, request.params.arguments);
+      return { description, messages };
+    });
   }
 
-  private setupToolHandlers(): void {
-    // 注册工具列表
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+  /**
+   * 图表资源包含渲染的源码，需要 render 权限，且只能访问本客户端渲染的图表
+   */
+  private setupResourceHandlers(server: Server, scopes?: ApiScope[], clientId?: string): void {
+    const requireRenderScope = () => {
+      if (scopes && !scopes.includes('render')) {
+        throw new Error('权限不足: 图表资源需要 render 权限');
+      }
+    };
+
+    // 列出已渲染的图表
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      requireRenderScope();
+      return { resources: this.diagramResources.list(clientId) };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
       return {
-        tools: [
+        resourceTemplates: [
           {
-            name: 'render_mermaid_to_svg',
-            description: '将Mermaid代码渲染为SVG图表，创建临时文件并返回路径',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                mermaidCode: {
-                  type: 'string',
-                  description: 'Mermaid图表代码（由Cursor大模型生成）',
-                  maxLength: 50000
-                },
-                title: {
-                  type: 'string',
-                  description: '图表标题（可选）',
-                  default: 'Mermaid图表',
-                  maxLength: 100
-                },
-                theme: {
-                  type: 'string',
-                  enum: ['default', 'dark', 'forest', 'neutral'],
-                  description: '图表主题',
-                  default: 'default'
-                },
-                createTempFile: {
-                  type: 'boolean',
-                  description: '是否创建临时SVG文件',
-                  default: true
+            uriTemplate: `${DIAGRAM_URI_PREFIX}{id}.{format}`,
+            name: '已渲染的Mermaid图表',
+            description: 'format 为 svg、png、jpg、webp 或 mmd（Mermaid源码），id 见渲染结果中的 resourceUri'
+          }
+        ]
+      };
+    });
+
+    // 读取图表内容
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      requireRenderScope();
+      return { contents: [this.diagramResources.read(request.params.uri, clientId)] };
+    });
+  }
+
+  private setupToolHandlers(server: Server, scopes?: ApiScope[], clientId?: string): void {
+    const isAllowed = (name: string) => {
+      const scope = TOOL_SCOPES[name];
+      return !scopes || !scope || scopes.includes(scope);
+    };
+
+    // 注册工具列表（只列出会话有权限使用的工具）
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      const { maxCodeLength, themes } = this.inputLimits;
+      const defaultTheme = this.renderDefaults.theme;
+      const tools = [
+        {
+          name: 'render_mermaid_to_svg',
+          description: '将Mermaid代码渲染为SVG图表，以MCP图片内容、输出文件或嵌入资源返回，并附带结构化元数据',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              mermaidCode: {
+                type: 'string',
+                description: 'Mermaid图表代码（由Cursor大模型生成，与diagramUri二选一）',
+                maxLength: maxCodeLength
+              },
+              diagramUri: {
+                type: 'string',
+                description: '之前渲染结果的资源URI（如 mermaid://diagrams/{id}.svg），使用该图表的源码渲染（与mermaidCode二选一）'
+              },
+              title: {
+                type: 'string',
+                description: '图表标题（可选）',
+                default: 'Mermaid图表',
+                maxLength: 100
+              },
+              theme: {
+                type: 'string',
+                enum: themes,
+                description: '图表主题',
+                default: defaultTheme
+              },
+              config: CONFIG_INPUT_SCHEMA,
+              ...RENDERER_INPUT_SCHEMA,
+              outputMode: OUTPUT_MODE_INPUT_SCHEMA,
+              outputPath: OUTPUT_PATH_INPUT_SCHEMA,
+              createTempFile: {
+                type: 'boolean',
+                description: 'inline和resource模式下是否同时在输出目录中创建SVG文件（file模式或指定outputPath时始终创建，none模式从不创建）',
+                default: true
+              },
+              timeoutMs: TIMEOUT_INPUT_SCHEMA
+            }
+          }
+        },
+        {
+          name: 'render_mermaid_to_png',
+          description: '将Mermaid代码渲染为位图（PNG/JPEG/WebP），以MCP图片内容、输出文件或嵌入资源返回，并附带结构化元数据（需要Puppeteer浏览器环境）',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              mermaidCode: {
+                type: 'string',
+                description: 'Mermaid图表代码（与diagramUri二选一）',
+                maxLength: maxCodeLength
+              },
+              diagramUri: {
+                type: 'string',
+                description: '之前渲染结果的资源URI（如 mermaid://diagrams/{id}.svg），使用该图表的源码渲染（与mermaidCode二选一）'
+              },
+              title: {
+                type: 'string',
+                description: '图表标题（可选，用于文件名）',
+                default: 'Mermaid图表',
+                maxLength: 100
+              },
+              theme: {
+                type: 'string',
+                enum: themes,
+                description: '图表主题',
+                default: defaultTheme
+              },
+              config: CONFIG_INPUT_SCHEMA,
+              format: {
+                type: 'string',
+                enum: ['png', 'jpeg', 'webp'],
+                description: '图片格式',
+                default: 'png'
+              },
+              scale: {
+                type: 'number',
+                description: '缩放倍数（设备像素比），用于生成高清图片',
+                default: 2,
+                minimum: 0.1,
+                maximum: 10
+              },
+              width: {
+                type: 'number',
+                description: '图表宽度（像素，可选）；只指定宽度时高度按比例缩放',
+                minimum: 1,
+                maximum: 10000
+              },
+              height: {
+                type: 'number',
+                description: '图表高度（像素，可选）；只指定高度时宽度按比例缩放',
+                minimum: 1,
+                maximum: 10000
+              },
+              backgroundColor: {
+                type: 'string',
+                description: '背景颜色，如 white、#ffffff、rgba(0,0,0,0.5) 或 transparent（JPEG不支持透明）',
+                default: 'white'
+              },
+              quality: {
+                type: 'number',
+                description: '图片质量（仅JPEG/WebP有效）',
+                default: 90,
+                minimum: 0,
+                maximum: 100
+              },
+              outputMode: OUTPUT_MODE_INPUT_SCHEMA,
+              outputPath: OUTPUT_PATH_INPUT_SCHEMA,
+              timeoutMs: TIMEOUT_INPUT_SCHEMA
+            }
+          }
+        },
+        {
+          name: 'render_mermaid_to_pdf',
+          description: '将一个或多个Mermaid图表渲染为PDF（每页一个图表），写入输出目录并返回文件路径（需要Puppeteer浏览器环境）',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              mermaidCode: {
+                type: 'string',
+                description: '单个Mermaid图表代码（与diagrams二选一）',
+                maxLength: maxCodeLength
+              },
+              diagrams: {
+                type: 'array',
+                description: '多个图表，每个图表占一页（与mermaidCode二选一）',
+                maxItems: 50,
+                items: {
+                  type: 'object',
+                  properties: {
+                    mermaidCode: {
+                      type: 'string',
+                      description: 'Mermaid图表代码',
+                      maxLength: maxCodeLength
+                    },
+                    title: {
+                      type: 'string',
+                      description: '该页标题（可选）',
+                      maxLength: 100
+                    }
+                  },
+                  required: ['mermaidCode']
                 }
               },
-              required: ['mermaidCode']
+              title: {
+                type: 'string',
+                description: '文档标题（用于文件名，单图表时也作为页标题）',
+                default: 'Mermaid图表',
+                maxLength: 100
+              },
+              theme: {
+                type: 'string',
+                enum: themes,
+                description: '图表主题',
+                default: defaultTheme
+              },
+              config: CONFIG_INPUT_SCHEMA,
+              pageSize: {
+                type: 'string',
+                enum: Object.keys(PDF_PAGE_SIZES),
+                description: '纸张尺寸',
+                default: 'A4'
+              },
+              orientation: {
+                type: 'string',
+                enum: ['portrait', 'landscape'],
+                description: '纸张方向',
+                default: 'landscape'
+              },
+              showTitles: {
+                type: 'boolean',
+                description: '是否在每页顶部显示标题',
+                default: true
+              },
+              fitToPage: {
+                type: 'boolean',
+                description: '是否将图表缩放至适合页面大小',
+                default: true
+              },
+              outputPath: OUTPUT_PATH_INPUT_SCHEMA,
+              timeoutMs: TIMEOUT_INPUT_SCHEMA
             }
-          },
-          {
-            name: 'validate_mermaid_syntax',
-            description: '验证Mermaid代码语法是否正确',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                mermaidCode: {
-                  type: 'string',
-                  description: 'Mermaid图表代码',
-                  maxLength: 50000
+          }
+        },
+        {
+          name: 'render_mermaid_batch',
+          description: '批量渲染多个Mermaid图表（有限并发），返回每个图表的成功/失败状态、文件路径和错误信息',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              items: {
+                type: 'array',
+                description: '要渲染的图表列表',
+                minItems: 1,
+                maxItems: 100,
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: {
+                      type: 'string',
+                      description: '图表标识（可选，默认为序号），用于在结果中对应图表',
+                      maxLength: 100
+                    },
+                    mermaidCode: {
+                      type: 'string',
+                      description: 'Mermaid图表代码',
+                      maxLength: maxCodeLength
+                    },
+                    title: {
+                      type: 'string',
+                      description: '图表标题（可选）',
+                      maxLength: 100
+                    },
+                    theme: {
+                      type: 'string',
+                      enum: themes,
+                      description: '图表主题（可选，默认使用批量参数中的theme）'
+                    },
+                    config: {
+                      ...CONFIG_INPUT_SCHEMA,
+                      description: 'Mermaid配置（可选，默认使用批量参数中的config）'
+                    },
+                    format: {
+                      type: 'string',
+                      enum: ['svg', 'png', 'jpeg', 'webp', 'pdf'],
+                      description: '输出格式（可选，默认使用批量参数中的format）'
+                    },
+                    outputPath: {
+                      ...OUTPUT_PATH_INPUT_SCHEMA,
+                      description: '输出文件相对于输出目录的路径（可选，同一批次中不能重复）'
+                    }
+                  },
+                  required: ['mermaidCode']
                 }
               },
-              required: ['mermaidCode']
+              theme: {
+                type: 'string',
+                enum: themes,
+                description: '默认图表主题',
+                default: defaultTheme
+              },
+              config: {
+                ...CONFIG_INPUT_SCHEMA,
+                description: '默认Mermaid配置'
+              },
+              renderer: {
+                ...RENDERER_INPUT_SCHEMA.renderer,
+                description: 'SVG图表使用的渲染器（位图和PDF始终使用Puppeteer）'
+              },
+              allowFallback: RENDERER_INPUT_SCHEMA.allowFallback,
+              format: {
+                type: 'string',
+                enum: ['svg', 'png', 'jpeg', 'webp', 'pdf'],
+                description: '默认输出格式',
+                default: 'svg'
+              },
+              concurrency: {
+                type: 'number',
+                description: '最大并发渲染数',
+                default: 4,
+                minimum: 1,
+                maximum: 10
+              },
+              timeoutMs: {
+                ...TIMEOUT_INPUT_SCHEMA,
+                description: '整个批次的超时时间（毫秒），范围1000-600000，默认60000'
+              }
+            },
+            required: ['items']
+          }
+        },
+        {
+          name: 'validate_mermaid_syntax',
+          description: '验证Mermaid代码语法是否正确',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              mermaidCode: {
+                type: 'string',
+                description: 'Mermaid图表代码',
+                maxLength: maxCodeLength
+              },
+              timeoutMs: TIMEOUT_INPUT_SCHEMA
+            },
+            required: ['mermaidCode']
+          }
+        },
+        {
+          name: 'detect_diagram_type',
+          description: '检测Mermaid代码的图表类型，返回稳定的类型ID（如 flowchart、sequence）和中文名称',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              mermaidCode: {
+                type: 'string',
+                description: 'Mermaid图表代码',
+                maxLength: maxCodeLength
+              },
+              timeoutMs: TIMEOUT_INPUT_SCHEMA
+            },
+            required: ['mermaidCode']
+          }
+        },
+        {
+          name: 'lint_mermaid',
+          description: '检查Mermaid代码中的常见错误（如缺少方向、标签中未加引号的括号、保留字end、全角标点），返回规则警告',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              mermaidCode: {
+                type: 'string',
+                description: 'Mermaid图表代码',
+                maxLength: maxCodeLength
+              }
+            },
+            required: ['mermaidCode']
+          }
+        },
+        {
+          name: 'fix_mermaid',
+          description: '自动修复Mermaid代码中的常见错误，返回修复后的代码和差异，并重新验证修复结果',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              mermaidCode: {
+                type: 'string',
+                description: 'Mermaid图表代码',
+                maxLength: maxCodeLength
+              },
+              timeoutMs: TIMEOUT_INPUT_SCHEMA
+            },
+            required: ['mermaidCode']
+          }
+        },
+        {
+          name: 'list_rendered_files',
+          description: '列出输出目录中已渲染的文件（路径、大小、修改时间和过期时间）',
+          inputSchema: {
+            type: 'object',
+            properties: {}
+          }
+        },
+        {
+          name: 'delete_rendered_file',
+          description: '删除输出目录中已渲染的文件',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: '文件相对于输出目录的路径（见 list_rendered_files），或输出目录内的绝对路径'
+              }
+            },
+            required: ['path']
+          }
+        },
+        {
+          name: 'clear_render_cache',
+          description: '清空渲染缓存（内存和磁盘）',
+          inputSchema: {
+            type: 'object',
+            properties: {}
+          }
+        },
+        {
+          name: 'get_server_stats',
+          description: '获取运行指标（工具调用、渲染和验证的次数与耗时、渲染器降级、缓存命中、浏览器启动和崩溃、会话数），内容与HTTP模式的 /metrics 相同',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              format: {
+                type: 'string',
+                enum: ['json', 'prometheus'],
+                description: '输出格式：json（默认）或 Prometheus文本格式',
+                default: 'json'
+              }
             }
           }
-        ]
-      };
+        }
+      ];
+      return { tools: tools.filter((tool) => isAllowed(tool.name)) };
     });
 
     // 注册工具调用处理器
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
+      // 本次调用（包括各渲染器和校验器的降级尝试）的日志都带有同一个调用ID
+      return withLogContext({ callId: createRequestId(), tool: name, ...(clientId ? { client: clientId } : {}) }, async () => {
+        let context: RenderContext | undefined;
+        let releaseQuota: (() => void) | undefined;
+        const startedAt = Date.now();
+        let outcome: 'success' | 'error' | 'rate_limited' = 'error';
 
-      try {
-        switch (name) {
-          case 'render_mermaid_to_svg':
-            return await this.handleRenderMermaidToSVG(args as any);
-          case 'validate_mermaid_syntax':
-            return await this.handleValidateMermaidSyntax(args as any);
-          default:
-            throw new Error(`未知的工具: ${name}`);
+        try {
+          if (!isAllowed(name)) {
+            throw new Error(`权限不足: 工具 ${name} 需要 ${TOOL_SCOPES[name]} 权限`);
+          }
+          if (clientId) {
+            releaseQuota = this.rateLimiter.acquire(clientId, { render: TOOL_SCOPES[name] === 'render', sourceBytes: countSourceBytes(args) });
+          }
+
+          context = this.createRenderContext(args?.timeoutMs, extra.signal, { server, progressToken: request.params._meta?.progressToken }, clientId);
+
+          const result = await this.callTool(name, args, context);
+          outcome = 'isError' in result && result.isError ? 'error' : 'success';
+          return result;
+        } catch (error) {
+          if (error instanceof RateLimitError) {
+            outcome = 'rate_limited';
+          }
+          log.warn('工具调用失败', errorFields(error));
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `❌ 错误: ${error instanceof Error ? error.message : String(error)}`
+              }
+            ],
+            isError: true
+          };
+        } finally {
+          context?.dispose();
+          releaseQuota?.();
+          const durationMs = Date.now() - startedAt;
+          log.info('工具调用完成', { outcome, durationMs });
+          // 未知的工具名不记录，避免指标标签无限增长
+          if (name in TOOL_SCOPES) {
+            this.metrics.recordToolCall(name, outcome, durationMs);
+          }
         }
-      } catch (error) {
+      });
+    });
+  }
+
+  /**
+   * 按名称调用工具
+   */
+  private async callTool(name: string, args: Record<string, unknown> | undefined, context: RenderContext) {
+    switch (name) {
+      case 'render_mermaid_to_svg':
+        return await this.handleRenderMermaidToSVG(args as any, context);
+      case 'render_mermaid_to_png':
+        return await this.handleRenderMermaidToImage(args as any, context);
+      case 'render_mermaid_to_pdf':
+        return await this.handleRenderMermaidToPDF(args as any, context);
+      case 'render_mermaid_batch':
+        return await this.handleRenderMermaidBatch(args as any, context);
+      case 'validate_mermaid_syntax':
+        return await this.handleValidateMermaidSyntax(args as any, context);
+      case 'detect_diagram_type':
+        return await this.handleDetectDiagramType(args as any, context);
+      case 'lint_mermaid':
+        return this.handleLintMermaid(args as any);
+      case 'fix_mermaid':
+        return await this.handleFixMermaid(args as any, context);
+      case 'list_rendered_files':
+        return await this.handleListRenderedFiles();
+      case 'delete_rendered_file':
+        return await this.handleDeleteRenderedFile(args as any);
+      case 'clear_render_cache':
+        return await this.handleClearRenderCache();
+      case 'get_server_stats':
+        return this.handleGetServerStats(args as any);
+      default:
+        throw new Error(`未知的工具: ${name}`);
+    }
+  }
+
+  /**
+   * 创建请求上下文：合并客户端取消和超时，客户端提供 progressToken 时向发起请求的会话发送进度通知，owner 为图表资源的所有者
+   */
+  private createRenderContext(
+    timeoutMs: unknown,
+    signal?: AbortSignal,
+    progress?: { server: Server; progressToken: string | number | undefined },
+    owner?: string
+  ): RenderContext {
+    const timeoutError = validateTimeout(timeoutMs);
+    if (timeoutError) {
+      throw new InputValidationError(timeoutError);
+    }
+
+    return new RenderContext({
+      signal,
+      owner,
+      timeoutMs: (timeoutMs as number | undefined) ?? this.renderDefaults.timeoutMs,
+      onProgress: progress?.progressToken === undefined
+        ? undefined
+        : ({ progress: value, total, message }) => {
+          progress.server.notification({
+            method: 'notifications/progress',
+            params: { progressToken: progress.progressToken!, progress: value, total, message }
+          }).catch((error) => {
+            log.warn('发送进度通知失败', errorFields(error));
+          });
+        }
+    });
+  }
+
+  /**
+   * 渲染图表并返回原始数据（供HTTP接口使用，与渲染工具共用渲染核心和缓存，不写文件也不登记资源）
+   */
+  async renderDiagram(request: DiagramRenderRequest, signal?: AbortSignal): Promise<DiagramRenderOutput> {
+    const {
+      mermaidCode,
+      title = 'Mermaid图表',
+      theme = this.renderDefaults.theme,
+      config,
+      format = 'svg',
+      renderer = 'auto',
+      allowFallback = true,
+      scale = 2,
+      width,
+      height,
+      backgroundColor = 'white',
+      quality = 90,
+      timeoutMs
+    } = request;
+
+    const formats = ['svg', 'png', 'jpeg', 'webp'];
+    const validationError = validateInput({ mermaidCode: mermaidCode ?? '', title, theme }, this.inputLimits)
+      ?? validateMermaidConfig(config)
+      ?? (formats.includes(format) ? null : `format 必须是以下值之一: ${formats.join(', ')}`)
+      ?? (format === 'svg'
+        ? validateRendererOptions({ renderer, allowFallback })
+        : validateImageOptions({ format, scale, width, height, backgroundColor, quality }));
+    if (validationError) {
+      throw new InputValidationError(validationError);
+    }
+
+    const context = this.createRenderContext(timeoutMs, signal);
+    try {
+      const diagramType = detectDiagramType(mermaidCode);
+      if (format === 'svg') {
+        const { svg, backend, fallbackReasons, cache } = await this.renderSvgOutput(
+          mermaidCode,
+          title,
+          theme,
+          config,
+          { renderer, allowFallback },
+          context
+        );
         return {
-          content: [
-            {
-              type: 'text',
-              text: `❌ 错误: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ],
-          isError: true
+          data: Buffer.from(svg, 'utf8'),
+          mimeType: 'image/svg+xml',
+          format,
+          diagramType,
+          renderer: backend,
+          fallbackReasons,
+          ...parseSvgDimensions(svg),
+          cache
         };
       }
-    });
+
+      const { image, cache } = await this.renderImageOutput(mermaidCode, theme, {
+        format,
+        scale,
+        width,
+        height,
+        backgroundColor,
+        quality
+      }, config, context);
+      return {
+        data: image.buffer,
+        mimeType: `image/${format}`,
+        format,
+        diagramType,
+        renderer: 'puppeteer',
+        fallbackReasons: [],
+        width: image.width,
+        height: image.height,
+        cache
+      };
+    } finally {
+      context.dispose();
+    }
+  }
+
+  /**
+   * 验证Mermaid语法并返回结构化结果（供HTTP接口使用）
+   */
+  async validateDiagram(mermaidCode: string, options: { timeoutMs?: number } = {}, signal?: AbortSignal): Promise<DiagramValidationOutput> {
+    const validationError = validateInput({ mermaidCode: mermaidCode ?? '' }, this.inputLimits);
+    if (validationError) {
+      throw new InputValidationError(validationError);
+    }
+
+    const context = this.createRenderContext(options.timeoutMs, signal);
+    try {
+      const { validator, diagnostics } = await this.validateMermaidInIsolatedContext(mermaidCode, context);
+      return {
+        valid: diagnostics.every((diagnostic) => diagnostic.severity !== 'error'),
+        validator,
+        diagramType: detectDiagramType(mermaidCode),
+        diagnostics
+      };
+    } finally {
+      context.dispose();
+    }
+  }
+
+  /**
+   * 渲染Mermaid代码为SVG
+   */
+  private async handleRenderMermaidToSVG(params: {
+    mermaidCode?: string;
+    diagramUri?: string;
+    title?: string;
+    theme?: string;
+    config?: MermaidUserConfig;
+    renderer?: RendererChoice;
+    allowFallback?: boolean;
+    outputMode?: OutputMode;
+    outputPath?: string;
+    createTempFile?: boolean;
+  }, context: RenderContext) {
+    const {
+      title = 'Mermaid图表',
+      theme = this.renderDefaults.theme,
+      config,
+      renderer = 'auto',
+      allowFallback = true,
+      outputMode = 'inline',
+      outputPath,
+      createTempFile = true
+    } = params;
+    const mermaidCode = this.resolveMermaidCode(params, context.owner);
+
+    // 输入校验
+    const validationError = validateInput({ mermaidCode, title, theme }, this.inputLimits)
+      ?? validateMermaidConfig(config)
+      ?? validateRendererOptions({ renderer, allowFallback })
+      ?? validateOutputMode(outputMode)
+      ?? this.validateOutputTarget(outputMode, outputPath);
+    if (validationError) {
+      throw new InputValidationError(validationError);
+    }
+
+    try {
+      const { svg: svgWithTitle, backend, fallbackReasons, cache } = await this.renderSvgOutput(
+        mermaidCode,
+        title,
+        theme,
+        config,
+        { renderer, allowFallback },
+        context
+      );
+
+      // 静态占位图只包含源码，不能当作渲染成功
+      const heading = backend === 'static'
+        ? '⚠️ 未能渲染图表，已生成包含源码的静态占位图'
+        : '✅ Mermaid图表渲染成功！';
+      const diagramType = detectDiagramType(mermaidCode);
+      const dimensions = parseSvgDimensions(svgWithTitle);
+
+      const content: ToolContent[] = [
+        {
+          type: 'text',
+          text: `${heading}\n📊 图表类型: ${formatDiagramType(diagramType)}\n🎨 主题: ${theme}\n🖥️ 渲染器: ${backend}\n💾 缓存: ${this.formatCacheStatus(cache)}${this.formatFallbackReasons(fallbackReasons)}`
+        }
+      ];
+
+      let filePath: string | undefined;
+      if (outputMode === 'file' || (outputMode !== 'none' && (createTempFile || outputPath !== undefined))) {
+        context.reportStage('writing-file');
+        filePath = await abortable(this.outputStore.write(svgWithTitle, { title, extension: 'svg', outputPath }), context.signal);
+        content.push({
+          type: 'text',
+          text: `📁 SVG文件已保存: ${filePath}`
+        });
+      }
+
+      const svgData = Buffer.from(svgWithTitle, 'utf8');
+      const { uri, sourceUri } = this.diagramResources.register({
+        mermaidCode,
+        theme,
+        config,
+        title,
+        diagramType: diagramType.name,
+        extension: 'svg',
+        data: svgData,
+        owner: context.owner
+      });
+      content.push(...this.createOutputContent(outputMode, svgData, 'image/svg+xml', uri));
+
+      content.push(this.createMetadataContent({
+        title,
+        diagramType: { id: diagramType.id, name: diagramType.name },
+        format: 'svg',
+        theme,
+        renderer: backend,
+        fallbackReasons,
+        ...dimensions,
+        outputMode,
+        filePath,
+        resourceUri: uri,
+        sourceUri,
+        cache
+      }));
+
+      return { content };
+
+    } catch (error) {
+      throw new Error(`SVG渲染失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * 渲染Mermaid代码为位图（PNG/JPEG/WebP）
+   */
+  private async handleRenderMermaidToImage(params: {
+    mermaidCode?: string;
+    diagramUri?: string;
+    title?: string;
+    theme?: string;
+    config?: MermaidUserConfig;
+    format?: ImageFormat;
+    scale?: number;
+    width?: number;
+    height?: number;
+    backgroundColor?: string;
+    quality?: number;
+    outputMode?: OutputMode;
+    outputPath?: string;
+  }, context: RenderContext) {
+    const {
+      title = 'Mermaid图表',
+      theme = this.renderDefaults.theme,
+      config,
+      format = 'png',
+      scale = 2,
+      width,
+      height,
+      backgroundColor = 'white',
+      quality = 90,
+      outputMode = 'inline',
+      outputPath
+    } = params;
+    const mermaidCode = this.resolveMermaidCode(params, context.owner);
+
+    // 输入校验
+    const validationError = validateInput({ mermaidCode, title, theme }, this.inputLimits)
+      ?? validateMermaidConfig(config)
+      ?? validateImageOptions({ format, scale, width, height, backgroundColor, quality })
+      ?? validateOutputMode(outputMode)
+      ?? this.validateOutputTarget(outputMode, outputPath);
+    if (validationError) {
+      throw new InputValidationError(validationError);
+    }
+
+    const { image, cache } = await this.renderImageOutput(mermaidCode, theme, {
+      format,
+      scale,
+      width,
+      height,
+      backgroundColor,
+      quality
+    }, config, context);
+
+    const diagramType = detectDiagramType(mermaidCode);
+    const extension = format === 'jpeg' ? 'jpg' : format;
+    const content: ToolContent[] = [
+      {
+        type: 'text',
+        text: `✅ Mermaid图表已导出为${format.toUpperCase()}！\n📊 图表类型: ${formatDiagramType(diagramType)}\n🎨 主题: ${theme}\n📐 尺寸: ${image.width}x${image.height} (缩放 ${scale}x)\n🖥️ 渲染器: puppeteer\n💾 缓存: ${this.formatCacheStatus(cache)}`
+      }
+    ];
+
+    let filePath: string | undefined;
+    if (outputMode !== 'none') {
+      context.reportStage('writing-file');
+      filePath = await abortable(this.outputStore.write(image.buffer, { title, extension, outputPath }), context.signal);
+      content.push({
+        type: 'text',
+        text: `📁 ${format.toUpperCase()}文件已保存: ${filePath}`
+      });
+    }
+
+    const { uri, sourceUri } = this.diagramResources.register({
+      mermaidCode,
+      theme,
+      config,
+      title,
+      diagramType: diagramType.name,
+      extension,
+      data: image.buffer,
+      owner: context.owner
+    });
+    content.push(...this.createOutputContent(outputMode, image.buffer, `image/${format}`, uri));
+
+    content.push(this.createMetadataContent({
+      title,
+      diagramType: { id: diagramType.id, name: diagramType.name },
+      format,
+      theme,
+      renderer: 'puppeteer',
+      width: image.width,
+      height: image.height,
+      scale,
+      outputMode,
+      filePath,
+      resourceUri: uri,
+      sourceUri,
+      cache
+    }));
+
+    return { content };
+  }
+
+  /**
+   * 渲染一个或多个Mermaid图表为PDF（每页一个图表）
+   */
+  private async handleRenderMermaidToPDF(params: {
+    mermaidCode?: string;
+    diagrams?: Array<{ mermaidCode: string; title?: string }>;
+    title?: string;
+    theme?: string;
+    config?: MermaidUserConfig;
+    pageSize?: PdfPageSize;
+    orientation?: 'portrait' | 'landscape';
+    showTitles?: boolean;
+    fitToPage?: boolean;
+    outputPath?: string;
+  }, context: RenderContext) {
+    const {
+      mermaidCode,
+      diagrams,
+      title = 'Mermaid图表',
+      theme = this.renderDefaults.theme,
+      config,
+      pageSize = 'A4',
+      orientation = 'landscape',
+      showTitles = true,
+      fitToPage = true,
+      outputPath
+    } = params;
+
+    if ((mermaidCode === undefined) === (diagrams === undefined)) {
+      throw new InputValidationError('mermaidCode 和 diagrams 必须且只能提供其中一个');
+    }
+
+    const items = diagrams ?? [{ mermaidCode: mermaidCode!, title }];
+
+    // 输入校验
+    let validationError = validateInput({ title, theme }, this.inputLimits)
+      ?? validateMermaidConfig(config)
+      ?? validatePdfOptions({ pageSize, orientation, diagramCount: Array.isArray(items) ? items.length : undefined })
+      ?? validateOutputPath(outputPath);
+    for (const [index, item] of (Array.isArray(items) ? items : []).entries()) {
+      if (validationError) {
+        break;
+      }
+      const itemError = item && typeof item === 'object'
+        ? validateInput({ mermaidCode: item.mermaidCode, title: item.title }, this.inputLimits)
+        : '图表项必须是对象';
+      if (itemError) {
+        validationError = `diagrams[${index}] ${itemError}`;
+      }
+    }
+    if (validationError) {
+      throw new InputValidationError(validationError);
+    }
+
+    const pages = items.map((item, index) => ({
+      mermaidCode: item.mermaidCode,
+      title: item.title ?? (items.length > 1 ? `${title} ${index + 1}` : title)
+    }));
+
+    const { pdf, cache } = await this.renderPdfOutput(
+      pages,
+      theme,
+      { pageSize, orientation, showTitles, fitToPage },
+      config,
+      context
+    );
+
+    context.reportStage('writing-file');
+    const filePath = await abortable(this.outputStore.write(pdf, { title, extension: 'pdf', outputPath }), context.signal);
+    const diagramTypes = pages.map((page) => detectDiagramType(page.mermaidCode));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ Mermaid图表已导出为PDF！\n📄 页数: ${pages.length}\n📊 图表类型: ${[...new Set(diagramTypes.map(formatDiagramType))].join(', ')}\n🎨 主题: ${theme}\n📐 纸张: ${pageSize} ${orientation === 'landscape' ? '横向' : '纵向'}\n🖥️ 渲染器: puppeteer\n💾 缓存: ${this.formatCacheStatus(cache)}`
+        },
+        {
+          type: 'text',
+          text: `📁 PDF文件已保存: ${filePath}`
+        },
+        this.createMetadataContent({
+          title,
+          diagramTypes: diagramTypes.map(({ id, name }) => ({ id, name })),
+          format: 'pdf',
+          theme,
+          renderer: 'puppeteer',
+          pages: pages.length,
+          pageSize,
+          orientation,
+          filePath,
+          cache
+        })
+      ]
+    };
+  }
+
+  /**
+   * 验证Mermaid语法
+   */
+  private async handleValidateMermaidSyntax(params: { mermaidCode: string }, context: RenderContext) {
+    const { mermaidCode } = params;
+
+    // 输入校验
+    const validationError = validateInput({ mermaidCode }, this.inputLimits);
+    if (validationError) {
+      throw new InputValidationError(validationError);
+    }
+
+    // 在隔离环境中验证语法
+    const { validator, diagnostics } = await this.validateMermaidInIsolatedContext(mermaidCode, context);
+    const valid = diagnostics.every((diagnostic) => diagnostic.severity !== 'error');
+
+    const summary = valid
+      ? `✅ Mermaid语法验证通过！\n📊 图表类型: ${formatDiagramType(detectDiagramType(mermaidCode))}\n🔍 校验器: ${validator}${validator === 'static' ? '（仅基本检查）' : ''}`
+      : `❌ Mermaid语法错误（共${diagnostics.length}处）\n🔍 校验器: ${validator}\n\n${formatDiagnostics(diagnostics)}`;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: summary
+        },
+        {
+          type: 'text',
+          text: `\n📋 诊断详情:\n\`\`\`json\n${JSON.stringify({ valid, validator, diagnostics }, null, 2)}\n\`\`\``
+        }
+      ],
+      ...(valid ? {} : { isError: true })
+    };
+  }
+
+  /**
+   * 检测图表类型
+   */
+  private async handleDetectDiagramType(params: { mermaidCode: string }, context: RenderContext) {
+    const { mermaidCode } = params;
+
+    const validationError = validateInput({ mermaidCode }, this.inputLimits);
+    if (validationError) {
+      throw new InputValidationError(validationError);
+    }
+
+    const diagramType = await this.detectDiagramTypeWithMermaid(mermaidCode, context);
+    const summary = diagramType.id === 'unknown'
+      ? `❓ 无法识别图表类型${diagramType.keyword ? `（声明: ${diagramType.keyword}）` : ''}\n💡 支持的声明: ${DIAGRAM_KEYWORDS.join(', ')}`
+      : `📊 图表类型: ${formatDiagramType(diagramType)}\n🔑 声明: ${diagramType.keyword}`;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${summary}\n🔍 检测方式: ${diagramType.source === 'mermaid' ? 'Mermaid检测器' : '本地规则'}`
+        },
+        {
+          type: 'text',
+          text: `\n📋 检测详情:\n\`\`\`json\n${JSON.stringify(diagramType, null, 2)}\n\`\`\``
+        }
+      ]
+    };
+  }
+
+  /**
+   * 按规则检查常见错误，只返回警告，不判定语法是否正确
+   */
+  private handleLintMermaid(params: { mermaidCode: string }) {
+    const { mermaidCode } = params;
+
+    const validationError = validateInput({ mermaidCode }, this.inputLimits);
+    if (validationError) {
+      throw new InputValidationError(validationError);
+    }
+
+    const warnings = lintMermaid(mermaidCode);
+    const fixable = warnings.filter((warning) => warning.fixable).length;
+    const summary = warnings.length === 0
+      ? '✅ 未发现常见问题'
+      : `⚠️ 发现${warnings.length}个问题（${fixable}个可通过 fix_mermaid 自动修复）\n\n${this.formatLintWarnings(warnings)}`;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: summary
+        },
+        {
+          type: 'text',
+          text: `\n📋 检查详情:\n\`\`\`json\n${JSON.stringify({ warnings }, null, 2)}\n\`\`\``
+        }
+      ]
+    };
+  }
+
+  /**
+   * 自动修复常见错误，并重新验证修复后的代码
+   */
+  private async handleFixMermaid(params: { mermaidCode: string }, context: RenderContext) {
+    const { mermaidCode } = params;
+
+    const validationError = validateInput({ mermaidCode }, this.inputLimits);
+    if (validationError) {
+      throw new InputValidationError(validationError);
+    }
+
+    const { code, changed, fixes, diff } = fixMermaid(mermaidCode);
+    const { validator, diagnostics } = await this.validateMermaidInIsolatedContext(code, context);
+    const valid = diagnostics.every((diagnostic) => diagnostic.severity !== 'error');
+
+    const lines = [
+      changed ? `🔧 已修复${fixes.length}处问题` : '✅ 未发现可自动修复的问题',
+      valid
+        ? `🔍 重新验证: 通过（校验器: ${validator}${validator === 'static' ? '，仅基本检查' : ''}）`
+        : `❌ 重新验证: 仍有${diagnostics.length}处语法错误（校验器: ${validator}）`
+    ];
+    if (changed) {
+      lines.push('', this.formatLintWarnings(fixes), '', `📝 差异:\n\`\`\`diff\n${diff}\n\`\`\``);
+    }
+    if (!valid) {
+      lines.push('', formatDiagnostics(diagnostics));
+    }
+    lines.push('', `📄 修复后的代码:\n\`\`\`mermaid\n${code}\n\`\`\``);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: lines.join('\n')
+        },
+        {
+          type: 'text',
+          text: `\n📋 修复详情:\n\`\`\`json\n${JSON.stringify({ changed, valid, validator, code, fixes, diagnostics }, null, 2)}\n\`\`\``
+        }
+      ],
+      ...(valid ? {} : { isError: true })
+    };
+  }
+
+  /**
+   * 格式化检查警告，消息后附规则ID
+   */
+  private formatLintWarnings(warnings: LintWarning[]): string {
+    return formatDiagnostics(warnings.map((warning) => ({ ...warning, message: `${warning.message} [${warning.rule}]` })));
+  }
+
+  /**
+   * 批量渲染多个图表，单个图表失败不影响其他图表
+   */
+  private async handleRenderMermaidBatch(params: {
+    items: BatchItem[];
+    theme?: string;
+    config?: MermaidUserConfig;
+    format?: BatchFormat;
+    renderer?: RendererChoice;
+    allowFallback?: boolean;
+    concurrency?: number;
+  }, context: RenderContext) {
+    const {
+      items,
+      theme = this.renderDefaults.theme,
+      config,
+      format = 'svg',
+      renderer = 'auto',
+      allowFallback = true,
+      concurrency = 4
+    } = params;
+
+    // 整体参数校验（单个图表的参数在渲染时校验）
+    const validationError = validateBatchOptions({ items, format, concurrency })
+      ?? validateInput({ theme }, this.inputLimits)
+      ?? validateMermaidConfig(config)
+      ?? validateRendererOptions({ renderer, allowFallback });
+    if (validationError) {
+      throw new InputValidationError(validationError);
+    }
+
+    const startTime = Date.now();
+    log.info('批量渲染', { items: items.length, concurrency });
+
+    let completed = 0;
+    const results = await mapWithConcurrency(items, concurrency, async (item, index): Promise<BatchItemResult> => {
+      const id = item.id ?? String(index + 1);
+      const itemFormat = item.format ?? format;
+      // 单个图表不上报阶段进度，批次按完成的图表数上报
+      const itemContext = context.withoutProgress();
+      try {
+        const output = await withLogContext({ item: id }, () => this.renderBatchItem(item, itemFormat, item.theme ?? theme, item.config ?? config, {
+          renderer,
+          allowFallback
+        }, itemContext));
+        return { id, success: true, format: itemFormat, ...output };
+      } catch (error) {
+        return {
+          id,
+          success: false,
+          format: itemFormat,
+          error: error instanceof Error ? error.message : String(error)
+        };
+      } finally {
+        itemContext.dispose();
+        completed++;
+        context.reportProgress(completed, items.length, `已完成 ${completed}/${items.length} 个图表`);
+      }
+    });
+
+    // 整个批次被取消或超时时不返回部分结果
+    context.throwIfAborted();
+
+    const succeeded = results.filter((result) => result.success).length;
+    const failed = results.length - succeeded;
+
+    const lines = results.map((result) => {
+      if (!result.success) {
+        return `❌ [${result.id}] ${result.error}`;
+      }
+      return result.renderer === 'static'
+        ? `⚠️ [${result.id}] ${result.filePath}（静态占位图）`
+        : `✅ [${result.id}] ${result.filePath}`;
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `📦 批量渲染完成：成功 ${succeeded} 个，失败 ${failed} 个，耗时 ${Date.now() - startTime}ms\n${lines.join('\n')}`
+        },
+        {
+          type: 'text',
+          text: `\n📋 结果详情:\n\`\`\`json\n${JSON.stringify(results, null, 2)}\n\`\`\``
+        }
+      ],
+      // 只有全部失败时才标记为错误
+      isError: succeeded === 0
+    };
+  }
+
+  /**
+   * 渲染批量任务中的单个图表并写入输出目录
+   */
+  private async renderBatchItem(
+    item: BatchItem,
+    format: BatchFormat,
+    theme: string,
+    config: MermaidUserConfig | undefined,
+    rendererOptions: RendererOptions,
+    context: RenderContext
+  ): Promise<Pick<BatchItemResult, 'filePath' | 'diagramType' | 'resourceUri' | 'renderer' | 'fallbackReasons' | 'cache'>> {
+    const { mermaidCode, title = 'Mermaid图表', outputPath } = item;
+
+    const validationError = validateInput({ mermaidCode, title, theme }, this.inputLimits) ?? validateMermaidConfig(config);
+    if (validationError) {
+      throw new InputValidationError(validationError);
+    }
+
+    const diagramType = detectDiagramType(mermaidCode);
+    const registerResource = (extension: string, data: Buffer) => this.diagramResources.register({
+      mermaidCode,
+      theme,
+      config,
+      title,
+      diagramType: diagramType.name,
+      extension,
+      data,
+      owner: context.owner
+    }).uri;
+    const writeFile = (extension: string, data: Buffer | string) =>
+      abortable(this.outputStore.write(data, { title, extension, outputPath }), context.signal);
+
+    switch (format) {
+      case 'svg': {
+        const { svg, backend, fallbackReasons, cache } = await this.renderSvgOutput(
+          mermaidCode,
+          title,
+          theme,
+          config,
+          rendererOptions,
+          context
+        );
+        return {
+          filePath: await writeFile('svg', svg),
+          diagramType: diagramType.id,
+          resourceUri: registerResource('svg', Buffer.from(svg, 'utf8')),
+          renderer: backend,
+          fallbackReasons,
+          cache
+        };
+      }
+      case 'pdf': {
+        const { pdf, cache } = await this.renderPdfOutput([{ mermaidCode, title }], theme, {
+          pageSize: 'A4',
+          orientation: 'landscape',
+          showTitles: true,
+          fitToPage: true
+        }, config, context);
+        return {
+          filePath: await writeFile('pdf', pdf),
+          diagramType: diagramType.id,
+          renderer: 'puppeteer',
+          cache
+        };
+      }
+      default: {
+        const { image, cache } = await this.renderImageOutput(mermaidCode, theme, {
+          format,
+          scale: 2,
+          backgroundColor: 'white',
+          quality: 90
+        }, config, context);
+        const extension = format === 'jpeg' ? 'jpg' : format;
+        return {
+          filePath: await writeFile(extension, image.buffer),
+          diagramType: diagramType.id,
+          resourceUri: registerResource(extension, image.buffer),
+          renderer: 'puppeteer',
+          cache
+        };
+      }
+    }
+  }
+
+  /**
+   * 列出输出目录中的文件
+   */
+  private async handleListRenderedFiles() {
+    const files = await this.outputStore.list();
+    const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+    const lines = files.map((file) => `- ${file.path} (${formatFileSize(file.size)}，修改于 ${file.modifiedAt})`);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `📂 输出目录: ${this.outputStore.dir}\n📄 共 ${files.length} 个文件，${formatFileSize(totalBytes)}${lines.length > 0 ? `\n${lines.join('\n')}` : ''}`
+        },
+        {
+          type: 'text',
+          text: `\n📋 文件详情:\n\`\`\`json\n${JSON.stringify(files, null, 2)}\n\`\`\``
+        }
+      ]
+    };
+  }
+
+  /**
+   * 删除输出目录中的文件
+   */
+  private async handleDeleteRenderedFile(params: { path?: unknown }) {
+    if (typeof params?.path !== 'string' || params.path.length === 0) {
+      throw new InputValidationError('path 必须是非空字符串');
+    }
+
+    const filePath = await this.outputStore.delete(params.path);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🗑️ 文件已删除: ${filePath}`
+        }
+      ]
+    };
+  }
+
+  /**
+   * 清空渲染缓存
+   */
+  private async handleClearRenderCache() {
+    const stats = this.renderCache.getStats();
+    const { memoryEntries, diskEntries } = await this.renderCache.clear();
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🧹 渲染缓存已清空\n🧠 内存: ${memoryEntries} 项\n💽 磁盘: ${stats.diskEnabled ? `${diskEntries} 项` : '未启用'}\n📈 累计命中 ${stats.hits} 次，未命中 ${stats.misses} 次`
+        }
+      ]
+    };
+  }
+
+  /**
+   * 获取运行指标
+   */
+  private handleGetServerStats(params: { format?: unknown }) {
+    const format = params?.format ?? 'json';
+    if (format !== 'json' && format !== 'prometheus') {
+      throw new InputValidationError('format 必须是 json 或 prometheus');
+    }
+
+    const text = format === 'prometheus'
+      ? this.metrics.toPrometheus()
+      : JSON.stringify(this.metrics.toJSON(), null, 2);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `📈 运行指标:\n\`\`\`${format === 'json' ? 'json' : 'text'}\n${text}\n\`\`\``
+        }
+      ]
+    };
+  }
+
+  /**
+   * 渲染SVG并添加标题
+   */
+  private async renderSvgOutput(
+    mermaidCode: string,
+    title: string,
+    theme: string,
+    config: MermaidUserConfig | undefined,
+    rendererOptions: RendererOptions,
+    context: RenderContext
+  ): Promise<SvgRenderResult> {
+    // 合并默认配置后再计算缓存键，修改默认配置后不会命中旧缓存
+    const mergedConfig = mergeMermaidConfig(this.renderDefaults.mermaidConfig, config);
+    return this.measureRender({ format: 'svg', mermaidCode, theme }, context, async () => {
+      const result = await this.renderMermaidInIsolatedContext(mermaidCode, theme, mergedConfig, rendererOptions, context);
+
+      // 添加标题到SVG
+      context.reportStage('post-processing');
+      return { ...result, svg: this.addTitleToSVG(result.svg, title) };
+    }, (result) => ({
+      renderer: result.backend,
+      cache: result.cache,
+      fallbackFrom: result.fallbackReasons.map((reason) => reason.slice(0, reason.indexOf(':'))),
+      svgBytes: Buffer.byteLength(result.svg)
+    }));
+  }
+
+  /**
+   * 执行渲染并记录次数、耗时、渲染器、缓存和输出大小
+   */
+  private async measureRender<T>(
+    request: { format: string; mermaidCode: string; theme: string },
+    context: RenderContext,
+    render: () => Promise<T>,
+    describe: (result: T) => Pick<RenderEvent, 'renderer' | 'cache' | 'fallbackFrom' | 'svgBytes'>
+  ): Promise<T> {
+    const startedAt = Date.now();
+    const labels = { format: request.format, diagramType: detectDiagramType(request.mermaidCode).id, theme: request.theme };
+    try {
+      const result = await render();
+      this.metrics.recordRender({ ...labels, ...describe(result), outcome: 'success', durationMs: Date.now() - startedAt });
+      return result;
+    } catch (error) {
+      this.metrics.recordRender({
+        ...labels,
+        renderer: 'none',
+        outcome: context.signal.aborted ? 'cancelled' : 'error',
+        durationMs: Date.now() - startedAt
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 渲染位图（带缓存），位图只能由浏览器生成，不降级到JSDOM或静态方案
+   */
+  private async renderImageOutput(
+    mermaidCode: string,
+    theme: string,
+    options: ImageRenderOptions,
+    config: MermaidUserConfig | undefined,
+    context: RenderContext
+  ): Promise<{ image: ImageRenderResult; cache: CacheStatus }> {
+    const label = options.format.toUpperCase();
+    // 合并默认配置后再计算缓存键，修改默认配置后不会命中旧缓存
+    const mergedConfig = mergeMermaidConfig(this.renderDefaults.mermaidConfig, config);
+    return this.measureRender({ format: options.format, mermaidCode, theme }, context, async () => {
+      try {
+        const { entry, cache } = await this.withRenderCache({ mermaidCode, theme, config: mergedConfig, ...options }, async () => {
+          log.debug('使用Puppeteer导出', { format: options.format });
+          const rendered = await this.renderImageWithPuppeteer(mermaidCode, buildMermaidConfig(theme, mergedConfig), options, context);
+          return { value: rendered.buffer, metadata: { width: rendered.width, height: rendered.height } };
+        });
+
+        return {
+          image: {
+            buffer: entry.value,
+            width: Number(entry.metadata.width),
+            height: Number(entry.metadata.height)
+          },
+          cache
+        };
+      } catch (error) {
+        context.throwIfAborted();
+        throw new Error(`${label}导出失败（需要可用的Puppeteer浏览器环境）: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }, (result) => ({ renderer: 'puppeteer', cache: result.cache }));
+  }
+
+  /**
+   * 渲染PDF（带缓存），PDF只能由浏览器生成，不降级到JSDOM或静态方案
+   */
+  private async renderPdfOutput(
+    pages: Array<{ mermaidCode: string; title: string }>,
+    theme: string,
+    options: PdfRenderOptions,
+    config: MermaidUserConfig | undefined,
+    context: RenderContext
+  ): Promise<{ pdf: Buffer; cache: CacheStatus }> {
+    // 合并默认配置后再计算缓存键，修改默认配置后不会命中旧缓存
+    const mergedConfig = mergeMermaidConfig(this.renderDefaults.mermaidConfig, config);
+    // 多页PDF按第一页的图表类型记录
+    return this.measureRender({ format: 'pdf', mermaidCode: pages[0]?.mermaidCode ?? '', theme }, context, async () => {
+      try {
+        const { entry, cache } = await this.withRenderCache({ pages, theme, config: mergedConfig, format: 'pdf', ...options }, async () => {
+          log.debug('使用Puppeteer导出', { format: 'pdf', pages: pages.length });
+          return { value: await this.renderPdfWithPuppeteer(pages, buildMermaidConfig(theme, mergedConfig), options, context) };
+        });
+        return { pdf: entry.value, cache };
+      } catch (error) {
+        context.throwIfAborted();
+        throw new Error(`PDF导出失败（需要可用的Puppeteer浏览器环境）: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }, (result) => ({ renderer: 'puppeteer', cache: result.cache }));
+  }
+
+  /**
+   * 渲染Mermaid（带缓存）
+   */
+  private async renderMermaidInIsolatedContext(
+    mermaidCode: string,
+    theme: string,
+    config: MermaidUserConfig | undefined,
+    rendererOptions: RendererOptions,
+    context: RenderContext
+  ): Promise<SvgRenderResult> {
+    // 不同渲染器的输出不同，缓存键包含所选渲染器、渲染器顺序和是否允许降级，
+    // 实际使用的渲染器和降级原因保存在元数据中，命中缓存时同样能报告
+    const { entry, cache } = await this.withRenderCache(
+      {
+        mermaidCode,
+        theme,
+        config,
+        format: 'svg',
+        renderer: rendererOptions.renderer,
+        allowFallback: rendererOptions.allowFallback,
+        rendererOrder: this.renderDefaults.renderers
+      },
+      async () => {
+        const rendered = await this.renderWithFallback(mermaidCode, theme, config, rendererOptions, context);
+        // 静态占位图不缓存，渲染环境恢复后可以得到真实结果
+        return {
+          value: Buffer.from(rendered.svg, 'utf8'),
+          metadata: { backend: rendered.backend, fallbackReasons: rendered.fallbackReasons },
+          cacheable: rendered.backend !== 'static'
+        };
+      }
+    );
+
+    return {
+      svg: entry.value.toString('utf8'),
+      backend: entry.metadata.backend as RendererBackend,
+      fallbackReasons: Array.isArray(entry.metadata.fallbackReasons) ? entry.metadata.fallbackReasons.map(String) : [],
+      cache
+    };
+  }
+
+  /**
+   * 按所选渲染器渲染Mermaid，允许降级时依次尝试其余渲染器，最后使用静态占位图
+   */
+  private async renderWithFallback(
+    mermaidCode: string,
+    theme: string,
+    config: MermaidUserConfig | undefined,
+    rendererOptions: RendererOptions,
+    context: RenderContext
+  ): Promise<{ svg: string; backend: RendererBackend; fallbackReasons: string[] }> {
+    const { renderer, allowFallback } = rendererOptions;
+
+    // 两种渲染方式使用同一份配置，保证结果一致
+    const mermaidConfig = buildMermaidConfig(theme, config);
+
+    const order = this.renderDefaults.renderers;
+    const renderers: RendererBackend[] = renderer === 'auto'
+      ? order.filter((backend) => backend !== 'static')
+      : [renderer];
+    if (allowFallback) {
+      for (const backend of order) {
+        if (!renderers.includes(backend)) {
+          renderers.push(backend);
+        }
+      }
+    }
+
+    const fallbackReasons: string[] = [];
+    for (const backend of renderers) {
+      try {
+        switch (backend) {
+          case 'puppeteer':
+            log.debug('尝试渲染', { renderer: backend });
+            return { svg: await this.renderWithPuppeteer(mermaidCode, mermaidConfig, context), backend, fallbackReasons };
+          case 'jsdom':
+            log.debug('尝试渲染', { renderer: backend });
+            return { svg: await this.renderWithJSDOM(mermaidCode, mermaidConfig, context), backend, fallbackReasons };
+          case 'static':
+            log.debug('尝试渲染', { renderer: backend });
+            context.reportStage('rendering');
+            return { svg: this.renderStaticFallback(mermaidCode, theme), backend, fallbackReasons };
+        }
+      } catch (error) {
+        // 取消或超时后不再尝试其他渲染器
+        context.throwIfAborted();
+        const message = error instanceof Error ? error.message : String(error);
+        log.warn('渲染器失败', { renderer: backend, ...errorFields(error) });
+        fallbackReasons.push(`${backend}: ${message}`);
+      }
+    }
+
+    throw new Error(`所有渲染器均失败${allowFallback ? '' : '（未允许降级）'}: ${fallbackReasons.join('; ')}`);
+  }
+
+  /**
+   * 通过渲染缓存获取结果，未命中时渲染并写入缓存
+   * 缓存键包含渲染参数和Mermaid版本，升级Mermaid后旧缓存自动失效
+   */
+  private async withRenderCache(
+    keyParts: Record<string, unknown>,
+    produce: () => Promise<{ value: Buffer; metadata?: Record<string, unknown>; cacheable?: boolean }>
+  ): Promise<{ entry: CacheEntry; cache: CacheStatus }> {
+    const key = RenderCache.createKey({ ...keyParts, mermaidVersion: getMermaidVersion() });
+
+    const cached = await this.renderCache.get(key);
+    if (cached) {
+      return { entry: cached, cache: cached.tier };
+    }
+
+    const { value, metadata = {}, cacheable = true } = await produce();
+    if (cacheable) {
+      await this.renderCache.set(key, value, metadata);
+    }
+
+    return { entry: { value, metadata }, cache: 'miss' };
   }
 
   /**
-   * 初始化浏览器实例（延迟初始化）
+   * 按返回方式生成图表内容：inline为MCP图片，resource为嵌入资源，file和none不返回图表数据
    */
-  private async getBrowser(): Promise<Browser> {
-    if (!this.browser) {
-      this.browser = await puppeteer.launch({
-        headless: 'new', // 使用新的Headless模式
-        args: [
-          '--no-sandbox',
-          '--disable-setuid-sandbox',
-          '--disable-dev-shm-usage',
-          '--disable-web-security'
-        ]
-      });
+  private createOutputContent(outputMode: OutputMode, data: Buffer, mimeType: string, resourceUri: string): ToolContent[] {
+    if (outputMode === 'inline') {
+      return [{ type: 'image', data: data.toString('base64'), mimeType }];
     }
-    return this.browser;
+    if (outputMode === 'resource') {
+      const resource = mimeType === 'image/svg+xml'
+        ? { uri: resourceUri, mimeType, text: data.toString('utf8') }
+        : { uri: resourceUri, mimeType, blob: data.toString('base64') };
+      return [{ type: 'resource', resource }];
+    }
+    return [];
   }
 
-
+  /**
+   * 获取要渲染的代码：直接提供的 mermaidCode，或 diagramUri 对应图表资源的源码
+   */
+  private resolveMermaidCode(params: { mermaidCode?: string; diagramUri?: string }, owner: string | undefined): string {
+    const { mermaidCode, diagramUri } = params;
+    if ((mermaidCode === undefined) === (diagramUri === undefined)) {
+      throw new InputValidationError('mermaidCode 和 diagramUri 必须且只能提供其中一个');
+    }
+    if (diagramUri === undefined) {
+      return mermaidCode!;
+    }
+    if (typeof diagramUri !== 'string') {
+      throw new InputValidationError('diagramUri 必须是字符串');
+    }
+    return this.diagramResources.getSource(diagramUri, owner);
+  }
 
   /**
-   * 渲染Mermaid代码为SVG
+   * 渲染元数据的JSON内容块（省略未设置的字段）
    */
-  private async handleRenderMermaidToSVG(params: {
-    mermaidCode: string;
-    title?: string;
-    theme?: string;
-    createTempFile?: boolean;
-  }) {
-    const { mermaidCode, title = 'Mermaid图表', theme = 'default', createTempFile = true } = params;
+  private createMetadataContent(metadata: Record<string, unknown>): ToolContent {
+    return {
+      type: 'text',
+      text: `\n📋 渲染详情:\n\`\`\`json\n${JSON.stringify(metadata, null, 2)}\n\`\`\``
+    };
+  }
 
-    // 输入校验
-    const validationError = validateInput({ mermaidCode, title, theme });
-    if (validationError) {
-      throw new Error(`输入校验失败: ${validationError}`);
+  /**
+   * 格式化降级原因
+   */
+  private formatFallbackReasons(fallbackReasons: string[]): string {
+    if (fallbackReasons.length === 0) {
+      return '';
     }
+    return `\n↪️ 降级原因:\n${fallbackReasons.map((reason) => `  - ${reason}`).join('\n')}`;
+  }
 
-    try {
-      // 渲染SVG，使用隔离的JSDOM实例
-      const svg = await this.renderMermaidInIsolatedContext(mermaidCode, theme);
-      
-      // 添加标题到SVG
-      const svgWithTitle = this.addTitleToSVG(svg, title);
+  /**
+   * 格式化缓存状态
+   */
+  private formatCacheStatus(cache: CacheStatus): string {
+    switch (cache) {
+      case 'memory':
+        return '命中（内存）';
+      case 'disk':
+        return '命中（磁盘）';
+      default:
+        return '未命中';
+    }
+  }
 
-      let result = {
-        content: [
-          {
-            type: 'text',
-            text: `✅ Mermaid图表渲染成功！\n📊 图表类型: ${this.detectDiagramType(mermaidCode)}\n🎨 主题: ${theme}`
-          }
-        ]
-      };
+  /**
+   * 使用Puppeteer在真实浏览器环境中渲染Mermaid
+   */
+  private async renderWithPuppeteer(
+    mermaidCode: string,
+    mermaidConfig: Record<string, unknown>,
+    context: RenderContext
+  ): Promise<string> {
+    return this.withMermaidPage(context, async (page) => {
+      // 在页面中执行渲染
+      context.reportStage('rendering');
+      const result = await page.evaluate(async (code, pageConfig) => {
+        try {
+          return await (window as any).renderMermaid(code, pageConfig);
+        } catch (error) {
+          return {
+            success: false,
+            error: `页面执行错误: ${error instanceof Error ? error.message : String(error)}`
+          };
+        }
+      }, mermaidCode, mermaidConfig);
 
-      // 如果需要创建临时文件
-      if (createTempFile) {
-        const tempFilePath = await this.createTempSVGFile(svgWithTitle, title);
-        result.content.push({
-          type: 'text',
-          text: `📁 临时SVG文件已创建: ${tempFilePath}`
-        });
+      if (!result.success) {
+        throw new Error(result.error);
       }
 
-      // 返回SVG内容
-      result.content.push({
-        type: 'text',
-        text: `\n📄 SVG内容:\n\`\`\`svg\n${svgWithTitle}\n\`\`\``
-      });
-
-      return result;
+      if (!result.svg) {
+        throw new Error('渲染结果为空');
+      }
 
-    } catch (error) {
-      throw new Error(`SVG渲染失败: ${error instanceof Error ? error.message : String(error)}`);
-    }
+      return result.svg as string;
+    });
   }
 
   /**
-   * 验证Mermaid语法
+   * 使用Puppeteer将Mermaid渲染为位图（PNG/JPEG/WebP）
+   * 复用渲染SVG的页面，将SVG放入页面后对元素截图
    */
-  private async handleValidateMermaidSyntax(params: { mermaidCode: string }) {
-    const { mermaidCode } = params;
+  private async renderImageWithPuppeteer(
+    mermaidCode: string,
+    mermaidConfig: Record<string, unknown>,
+    options: ImageRenderOptions,
+    context: RenderContext
+  ): Promise<ImageRenderResult> {
+    return this.withMermaidPage(context, async (page) => {
+      const transparent = options.backgroundColor === 'transparent';
 
-    // 输入校验
-    const validationError = validateInput({ mermaidCode });
-    if (validationError) {
-      throw new Error(`输入校验失败: ${validationError}`);
-    }
+      // 在页面中渲染并调整SVG尺寸
+      context.reportStage('rendering');
+      const result = await page.evaluate(async (code, opts) => {
+        const rendered = await (window as any).renderMermaid(code, opts.mermaidConfig);
+        if (!rendered.success) {
+          return rendered;
+        }
 
-    try {
-      // 在隔离环境中验证语法
-      await this.validateMermaidInIsolatedContext(mermaidCode);
+        const container = document.getElementById('mermaid-container')!;
+        container.innerHTML = rendered.svg;
+        const svgElement = container.querySelector('svg');
+        if (!svgElement) {
+          return { success: false, error: '渲染结果中没有SVG元素' };
+        }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `✅ Mermaid语法验证通过！\n📊 图表类型: ${this.detectDiagramType(mermaidCode)}`
-          }
-        ]
-      };
+        // 以viewBox作为原始尺寸，缺失时退回到实际布局尺寸
+        const viewBox = svgElement.viewBox && svgElement.viewBox.baseVal;
+        const box = svgElement.getBoundingClientRect();
+        const naturalWidth = viewBox && viewBox.width ? viewBox.width : box.width;
+        const naturalHeight = viewBox && viewBox.height ? viewBox.height : box.height;
 
-    } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Mermaid语法错误: ${error instanceof Error ? error.message : String(error)}`
-          }
-        ],
-        isError: true
-      };
-    }
-  }
+        // 只指定一边时按比例缩放另一边
+        let width = opts.width ?? naturalWidth;
+        let height = opts.height ?? naturalHeight;
+        if (opts.width !== undefined && opts.height === undefined && naturalWidth) {
+          height = naturalHeight * (opts.width / naturalWidth);
+        } else if (opts.height !== undefined && opts.width === undefined && naturalHeight) {
+          width = naturalWidth * (opts.height / naturalHeight);
+        }
 
-  /**
-   * 渲染Mermaid - 先尝试Puppeteer，失败时降级到JSDOM
-   */
-  private async renderMermaidInIsolatedContext(mermaidCode: string, theme: string): Promise<string> {
-    try {
-      console.error('🌐 尝试使用Puppeteer渲染...');
-      return await this.renderWithPuppeteer(mermaidCode, theme);
-    } catch (error) {
-      console.error('⚠️ Puppeteer失败，降级到JSDOM:', error instanceof Error ? error.message : String(error));
-      console.error('🔄 使用JSDOM降级方案...');
-      try {
-        return await this.renderWithJSDOM(mermaidCode, theme);
-      } catch (jsdomError) {
-        console.error('⚠️ JSDOM也失败，使用静态降级方案:', jsdomError instanceof Error ? jsdomError.message : String(jsdomError));
-        return this.renderStaticFallback(mermaidCode, theme);
+        svgElement.removeAttribute('style');
+        svgElement.setAttribute('width', String(width));
+        svgElement.setAttribute('height', String(height));
+
+        document.body.style.margin = '0';
+        document.body.style.background = 'transparent';
+        container.style.display = 'inline-block';
+        container.style.background = opts.backgroundColor;
+
+        return {
+          success: true,
+          svg: rendered.svg,
+          width: Math.ceil(width),
+          height: Math.ceil(height)
+        };
+      }, mermaidCode, {
+        mermaidConfig,
+        width: options.width,
+        height: options.height,
+        backgroundColor: options.backgroundColor
+      });
+
+      if (!result.success) {
+        throw new Error(result.error);
       }
-    }
+
+      // 视口与图表同尺寸，缩放通过设备像素比实现
+      context.reportStage('post-processing');
+      await page.setViewport({
+        width: Math.max(result.width, 1),
+        height: Math.max(result.height, 1),
+        deviceScaleFactor: options.scale
+      });
+
+      const element = await page.$('#mermaid-container svg');
+      if (!element) {
+        throw new Error('渲染结果中没有SVG元素');
+      }
+
+      const buffer = await element.screenshot({
+        type: options.format,
+        omitBackground: transparent,
+        ...(options.format === 'png' ? {} : { quality: options.quality })
+      });
+
+      return {
+        buffer,
+        width: result.width as number,
+        height: result.height as number
+      };
+    });
   }
 
   /**
-   * 使用Puppeteer在真实浏览器环境中渲染Mermaid
+   * 使用Puppeteer将多个图表渲染为PDF，每个图表单独一页
    */
-  private async renderWithPuppeteer(mermaidCode: string, theme: string): Promise<string> {
-    let browser;
-    let page;
-    
-    try {
-      // 每次都启动新的浏览器实例（避免连接重用问题）
-      browser = await puppeteer.launch({
-        headless: 'new',
-        args: [
-          '--no-sandbox',
-          '--disable-setuid-sandbox',
-          '--disable-dev-shm-usage',
-          '--disable-web-security',
-          '--disable-extensions',
-          '--disable-background-timer-throttling',
-          '--disable-backgrounding-occluded-windows',
-          '--disable-renderer-backgrounding'
-        ],
-        timeout: 10000
-      });
-      
-      page = await browser.newPage();
+  private async renderPdfWithPuppeteer(
+    pages: Array<{ mermaidCode: string; title: string }>,
+    mermaidConfig: Record<string, unknown>,
+    options: PdfRenderOptions,
+    context: RenderContext
+  ): Promise<Buffer> {
+    return this.withMermaidPage(context, async (page) => {
+      // 先逐个渲染出SVG
+      context.reportStage('rendering');
+      const svgs: string[] = [];
+      for (const [index, item] of pages.entries()) {
+        const result = await page.evaluate(async (code, pageConfig) => {
+          return await (window as any).renderMermaid(code, pageConfig);
+        }, item.mermaidCode, mermaidConfig);
 
-      // 设置页面错误监听
-      page.on('console', (msg) => {
-        if (msg.type() === 'error') {
-          console.error('浏览器控制台错误:', msg.text());
+        if (!result.success || !result.svg) {
+          throw new Error(`第${index + 1}个图表渲染失败: ${result.error ?? '渲染结果为空'}`);
         }
-      });
 
-      page.on('pageerror', (error) => {
-        console.error('页面错误:', error.message);
-      });
+        svgs.push(this.addTitleToSVG(result.svg, item.title));
+      }
+
+      // 计算可用的内容区域（毫米）
+      context.reportStage('post-processing');
+      const [portraitWidth, portraitHeight] = PDF_PAGE_SIZES[options.pageSize];
+      const landscape = options.orientation === 'landscape';
+      const contentWidth = (landscape ? portraitHeight : portraitWidth) - PDF_MARGIN_MM * 2;
+      const contentHeight = (landscape ? portraitWidth : portraitHeight) - PDF_MARGIN_MM * 2;
+      const headerHeight = options.showTitles ? 14 : 0;
 
-      // 创建HTML页面内容
-      const htmlContent = `
+      const sections = pages.map((item, index) => `
+    <section class="page">
+        ${options.showTitles ? `<h1>${escapeHtml(item.title)}</h1>` : ''}
+        <div class="diagram">${svgs[index]}</div>
+    </section>`).join('');
+
+      const printContent = `
 <!DOCTYPE html>
 <html>
 <head>
     <meta charset="utf-8">
-    <script src="https://cdn.jsdelivr.net/npm/mermaid@11.7.0/dist/mermaid.min.js"></script>
-    <script src="https://cdn.jsdelivr.net/npm/dompurify@3.2.6/dist/purify.min.js"></script>
+    <style>
+        body { margin: 0; font-family: Arial, sans-serif; }
+        .page {
+            width: ${contentWidth}mm;
+            height: ${contentHeight}mm;
+            overflow: hidden;
+            page-break-after: always;
+            break-after: page;
+        }
+        .page:last-child { page-break-after: auto; break-after: auto; }
+        h1 {
+            height: ${headerHeight}mm;
+            line-height: ${headerHeight}mm;
+            margin: 0;
+            font-size: 16pt;
+            overflow: hidden;
+            white-space: nowrap;
+            text-overflow: ellipsis;
+        }
+        .diagram {
+            width: ${contentWidth}mm;
+            height: ${contentHeight - headerHeight}mm;
+            display: flex;
+            align-items: flex-start;
+            justify-content: center;
+        }
+        ${options.fitToPage ? `.diagram svg {
+            width: 100% !important;
+            height: 100% !important;
+            max-width: none !important;
+        }` : ''}
+    </style>
 </head>
-<body>
-    <div id="mermaid-container"></div>
-    
-    <script>
-        // 初始化Mermaid
-        mermaid.initialize({
-            startOnLoad: false,
-            theme: '${theme}',
-            securityLevel: 'loose'
-        });
-        
-        // 渲染函数
-        window.renderMermaid = async function(mermaidCode) {
-            try {
-                const { svg } = await mermaid.render('diagram-id-' + Date.now(), mermaidCode);
-                return { success: true, svg };
-            } catch (error) {
-                return { 
-                    success: false, 
-                    error: error.message || error.toString() || 'Unknown error'
-                };
-            }
-        };
-    </script>
+<body>${sections}
 </body>
 </html>
       `;
 
-      // 设置页面内容
-      await page.setContent(htmlContent, { waitUntil: 'networkidle0', timeout: 30000 });
-
-      // 等待Mermaid加载完成
-      await page.waitForFunction(
-        () => typeof (window as any).mermaid !== 'undefined' && typeof (window as any).renderMermaid !== 'undefined',
-        { timeout: 30000 }
-      );
-
-      // 在页面中执行渲染
-      const result = await page.evaluate(async (code) => {
-        try {
-          return await (window as any).renderMermaid(code);
-        } catch (error) {
-          return {
-            success: false,
-            error: `页面执行错误: ${error instanceof Error ? error.message : String(error)}`
-          };
-        }
-      }, mermaidCode);
+      // 替换页面内容后该页面不再可复用，归还时会被浏览器池回收
+      await page.setContent(printContent, { waitUntil: 'load' });
 
-      if (!result.success) {
-        throw new Error(result.error);
+      // 不缩放时按viewBox还原图表的原始尺寸
+      if (!options.fitToPage) {
+        await page.evaluate(() => {
+          document.querySelectorAll('.diagram svg').forEach((element) => {
+            const svgElement = element as SVGSVGElement;
+            const viewBox = svgElement.viewBox && svgElement.viewBox.baseVal;
+            if (viewBox && viewBox.width && viewBox.height) {
+              svgElement.style.maxWidth = 'none';
+              svgElement.setAttribute('width', String(viewBox.width));
+              svgElement.setAttribute('height', String(viewBox.height));
+            }
+          });
+        });
       }
 
-      if (!result.svg) {
-        throw new Error('渲染结果为空');
-      }
+      return await page.pdf({
+        format: options.pageSize,
+        landscape,
+        printBackground: true,
+        margin: {
+          top: `${PDF_MARGIN_MM}mm`,
+          right: `${PDF_MARGIN_MM}mm`,
+          bottom: `${PDF_MARGIN_MM}mm`,
+          left: `${PDF_MARGIN_MM}mm`
+        }
+      });
+    });
+  }
 
-      return result.svg;
+  /**
+   * 从浏览器池借用一个已加载Mermaid的页面，在其中执行回调
+   */
+  private async withMermaidPage<T>(context: RenderContext, callback: (page: Page) => Promise<T>): Promise<T> {
+    try {
+      return await this.browserPool.withPage(callback, {
+        signal: context.signal,
+        onStage: (stage) => context.reportStage(stage)
+      });
 
     } catch (error) {
-      // 详细的错误日志
-      console.error('渲染错误详情:', {
-        type: typeof error,
-        message: error instanceof Error ? error.message : 'No message',
-        stack: error instanceof Error ? error.stack : 'No stack',
-        error: error
-      });
+      // 取消或超时直接返回原因
+      context.throwIfAborted();
+
+      // 不记录错误对象本身，其中可能包含用户代码
+      log.debug('浏览器页面错误', { errorType: typeof error, ...errorFields(error) });
       
       // 更安全的错误信息提取
       let errorMessage = 'Unknown error';
@@ -405,14 +2467,20 @@ export class SimpleMermaidMCPServer {
       }
       
       throw new Error(errorMessage);
-    } finally {
-      // 清理资源
-      if (page) {
-        await page.close().catch(() => {});
-      }
-      if (browser) {
-        await browser.close().catch(() => {});
-      }
+    }
+  }
+
+  /**
+   * 使用Mermaid注册的检测器识别图表类型（在工作线程中执行），失败时降级到本地规则
+   */
+  private async detectDiagramTypeWithMermaid(mermaidCode: string, context: RenderContext): Promise<DiagramTypeInfo> {
+    try {
+      const detectorId = await this.jsdomPool.detect(mermaidCode, context.signal);
+      return diagramTypeFromDetector(detectorId, mermaidCode);
+    } catch (error) {
+      context.throwIfAborted();
+      log.warn('Mermaid检测器不可用，使用本地规则', errorFields(error));
+      return detectDiagramType(mermaidCode);
     }
   }
 
@@ -420,7 +2488,7 @@ export class SimpleMermaidMCPServer {
    * 静态降级方案 - 当所有其他方法都失败时使用
    */
   private renderStaticFallback(mermaidCode: string, theme: string): string {
-    const diagramType = this.detectDiagramType(mermaidCode);
+    const diagramType = formatDiagramType(detectDiagramType(mermaidCode));
     const timestamp = new Date().toISOString();
     
     // 生成一个基本的信息性SVG
@@ -447,232 +2515,121 @@ export class SimpleMermaidMCPServer {
   }
 
   /**
-   * 使用JSDOM作为降级方案渲染Mermaid
+   * 使用JSDOM作为降级方案渲染Mermaid（在工作线程中执行，并发请求互不影响）
    */
-  private async renderWithJSDOM(mermaidCode: string, theme: string): Promise<string> {
-    // 创建独立的JSDOM实例
-    const dom = new JSDOM('<!DOCTYPE html><html><body><div id="mermaid-container"></div></body></html>');
-    const window = dom.window as any;
-    
-    // 备份原始全局变量
-    const originalWindow = (global as any).window;
-    const originalDocument = (global as any).document;
-    
-    try {
-      // 设置全局变量
-      (global as any).window = window;
-      (global as any).document = window.document;
-      
-      // 在antiscript模式下不需要DOMPurify，但为了兼容性还是设置一个
-      try {
-        const DOMPurify = createDOMPurify(window);
-        (global as any).DOMPurify = DOMPurify;
-        (window as any).DOMPurify = DOMPurify;
-             } catch (e) {
-         // DOMPurify设置失败也没关系，antiscript模式不依赖它
-         console.error('DOMPurify设置失败，但继续使用antiscript模式:', e instanceof Error ? e.message : String(e));
-       }
-
-      // 初始化Mermaid，使用antiscript来避免DOMPurify依赖
-      mermaid.initialize({
-        startOnLoad: false,
-        theme: theme as any,
-        securityLevel: 'antiscript',  // 使用antiscript避免DOMPurify
-        fontSize: 16,
-        fontFamily: 'Arial, sans-serif',
-        suppressErrorRendering: false
-      });
-
-      // 渲染SVG
-      const { svg } = await mermaid.render('mermaid-diagram-' + Date.now(), mermaidCode);
-      
-      if (!svg) {
-        throw new Error('JSDOM渲染失败：SVG为空');
-      }
-      
-      return svg;
-      
-    } finally {
-      // 恢复原始全局变量
-      if (originalWindow !== undefined) {
-        (global as any).window = originalWindow;
-      } else {
-        delete (global as any).window;
-      }
-      
-      if (originalDocument !== undefined) {
-        (global as any).document = originalDocument;
-      } else {
-        delete (global as any).document;
-      }
-      
-      // 清理DOMPurify
-      delete (global as any).DOMPurify;
-      
-      // 清理DOM
-      dom.window.close();
-    }
+  private async renderWithJSDOM(
+    mermaidCode: string,
+    mermaidConfig: Record<string, unknown>,
+    context: RenderContext
+  ): Promise<string> {
+    context.reportStage('rendering');
+    return this.jsdomPool.render(mermaidCode, mermaidConfig, context.signal);
   }
 
   /**
-   * 验证Mermaid语法 - 先尝试Puppeteer，失败时降级到JSDOM
+   * 验证Mermaid语法 - 先尝试Puppeteer，失败时降级到JSDOM，最后使用静态检查
+   * 语法错误是确定的结果，不再降级；返回使用的校验器和诊断（无诊断表示通过）
    */
-  private async validateMermaidInIsolatedContext(mermaidCode: string): Promise<void> {
-    try {
-      console.error('🌐 尝试使用Puppeteer验证...');
-      return await this.validateWithPuppeteer(mermaidCode);
-    } catch (error) {
-      console.error('⚠️ Puppeteer验证失败，降级到JSDOM:', error instanceof Error ? error.message : String(error));
-      console.error('🔄 使用JSDOM验证...');
+  private async validateMermaidInIsolatedContext(
+    mermaidCode: string,
+    context: RenderContext
+  ): Promise<{ validator: RendererBackend; diagnostics: SyntaxDiagnostic[] }> {
+    const runners: Record<RendererBackend, () => Promise<void> | void> = {
+      puppeteer: () => this.validateWithPuppeteer(mermaidCode, context),
+      jsdom: () => this.validateWithJSDOM(mermaidCode, context),
+      static: () => this.validateStaticFallback(mermaidCode)
+    };
+    const validators = this.renderDefaults.renderers.map((validator) => [validator, runners[validator]] as const);
+
+    const startedAt = Date.now();
+    const diagramType = detectDiagramType(mermaidCode).id;
+    const fallbackFrom: RendererBackend[] = [];
+    const record = (validator: string, outcome: 'valid' | 'invalid' | 'error' | 'cancelled') => {
+      this.metrics.recordValidation({ diagramType, validator, outcome, durationMs: Date.now() - startedAt, fallbackFrom });
+    };
+
+    let lastError: unknown;
+    for (const [validator, validate] of validators) {
       try {
-        return await this.validateWithJSDOM(mermaidCode);
-      } catch (jsdomError) {
-        console.error('⚠️ JSDOM验证也失败，使用静态验证:', jsdomError instanceof Error ? jsdomError.message : String(jsdomError));
-        return this.validateStaticFallback(mermaidCode);
+        log.debug('尝试验证', { validator });
+        await validate();
+        record(validator, 'valid');
+        return { validator, diagnostics: [] };
+      } catch (error) {
+        if (error instanceof MermaidSyntaxError) {
+          record(validator, 'invalid');
+          return { validator, diagnostics: error.diagnostics };
+        }
+        if (context.signal.aborted) {
+          record('none', 'cancelled');
+        }
+        context.throwIfAborted();
+        log.warn('校验器失败，尝试下一种方式', { validator, ...errorFields(error) });
+        fallbackFrom.push(validator);
+        lastError = error;
       }
     }
+
+    record('none', 'error');
+    throw lastError;
   }
 
   /**
    * 使用Puppeteer在真实浏览器环境中验证Mermaid语法
    */
-  private async validateWithPuppeteer(mermaidCode: string): Promise<void> {
-    const browser = await this.getBrowser();
-    const page = await browser.newPage();
-
-    try {
-      // 创建HTML页面内容
-      const htmlContent = `
-<!DOCTYPE html>
-<html>
-<head>
-    <meta charset="utf-8">
-    <script src="https://cdn.jsdelivr.net/npm/mermaid@11.7.0/dist/mermaid.min.js"></script>
-    <script src="https://cdn.jsdelivr.net/npm/dompurify@3.2.6/dist/purify.min.js"></script>
-</head>
-<body>
-    <script>
-        // 初始化Mermaid
-        mermaid.initialize({
-            startOnLoad: false,
-            securityLevel: 'loose'
-        });
-        
-        // 验证函数
-        window.validateMermaid = async function(mermaidCode) {
-            try {
-                await mermaid.parse(mermaidCode);
-                return { success: true };
-            } catch (error) {
-                return {
-                    success: false,
-                    error: error.message || error.toString() || 'Unknown validation error'
-                };
-            }
-        };
-    </script>
-</body>
-</html>
-      `;
-
-      // 设置页面内容
-      await page.setContent(htmlContent);
-
-      // 等待Mermaid加载完成
-      await page.waitForFunction(() => typeof (window as any).mermaid !== 'undefined' && typeof (window as any).validateMermaid !== 'undefined');
-
+  private async validateWithPuppeteer(mermaidCode: string, context: RenderContext): Promise<void> {
+    await this.browserPool.withPage(async (page) => {
       // 在页面中执行验证
       const result = await page.evaluate(async (code) => {
         return await (window as any).validateMermaid(code);
       }, mermaidCode);
 
       if (!result.success) {
-        throw new Error(result.error);
+        throw result.details
+          ? new MermaidSyntaxError(result.error, buildSyntaxDiagnostics(mermaidCode, result.details))
+          : new Error(result.error);
       }
-
-    } finally {
-      await page.close();
-    }
+    }, {
+      signal: context.signal,
+      onStage: (stage) => context.reportStage(stage)
+    });
   }
 
   /**
-   * 静态验证方案 - 基本的语法检查
+   * 静态验证方案 - 基本的语法检查，错误与Mermaid解析错误使用相同的诊断格式
    */
   private validateStaticFallback(mermaidCode: string): void {
-    console.error('🔍 使用静态语法检查...');
-    
-    // 基本的语法检查
-    if (!mermaidCode || typeof mermaidCode !== 'string') {
-      throw new Error('代码不能为空且必须是字符串');
-    }
-    
-    const trimmedCode = mermaidCode.trim();
-    if (trimmedCode.length === 0) {
-      throw new Error('代码内容不能为空');
+    // 检查是否以有效的图表类型声明开头（跳过frontmatter、指令和注释）
+    const { id, keyword } = detectDiagramType(mermaidCode);
+    if (!keyword) {
+      throw new MermaidSyntaxError('代码内容不能为空', [
+        createDiagnostic(mermaidCode, mermaidCode.trimEnd().length, {
+          message: '代码内容不能为空',
+          expected: DIAGRAM_KEYWORDS,
+          found: 'EOF',
+          source: 'static'
+        })
+      ]);
     }
-    
-    // 检查是否包含基本的图表类型关键词
-    const diagramTypes = [
-      'graph', 'flowchart', 'sequenceDiagram', 'classDiagram', 
-      'gantt', 'pie', 'erDiagram', 'journey', 'gitgraph',
-      'mindmap', 'timeline', 'requirementDiagram', 'stateDiagram'
-    ];
-    
-    const lowerCode = trimmedCode.toLowerCase();
-    const hasValidType = diagramTypes.some(type => lowerCode.includes(type.toLowerCase()));
-    
-    if (!hasValidType) {
-      throw new Error('未识别的图表类型。请确保代码包含有效的Mermaid图表类型关键词');
+
+    if (id === 'unknown') {
+      const message = '未识别的图表类型。请确保代码以有效的Mermaid图表类型关键词开头';
+      throw new MermaidSyntaxError(message, [
+        createDiagnostic(mermaidCode, preprocessWithOrigins(mermaidCode).toSourceOffset(0), {
+          message,
+          expected: DIAGRAM_KEYWORDS,
+          found: keyword,
+          source: 'static'
+        })
+      ]);
     }
-    
-    console.error('✅ 静态验证通过');
   }
 
   /**
-   * 使用JSDOM验证Mermaid语法
+   * 使用JSDOM验证Mermaid语法（在工作线程中执行）
    */
-  private async validateWithJSDOM(mermaidCode: string): Promise<void> {
-    // 创建独立的JSDOM实例用于验证
-    const dom = new JSDOM('<!DOCTYPE html><html><body></body></html>');
-    const window = dom.window as any;
-    
-    // 备份原始全局变量
-    const originalWindow = (global as any).window;
-    const originalDocument = (global as any).document;
-    
-    try {
-      // 设置全局变量
-      (global as any).window = window;
-      (global as any).document = window.document;
-      
-      // 初始化Mermaid用于验证（使用antiscript避免DOMPurify）
-      mermaid.initialize({
-        startOnLoad: false,
-        theme: 'default',
-        securityLevel: 'antiscript',
-        suppressErrorRendering: false
-      });
-
-      // 尝试解析（不需要实际渲染）
-      await mermaid.parse(mermaidCode);
-      
-    } finally {
-      // 恢复原始全局变量
-      if (originalWindow !== undefined) {
-        (global as any).window = originalWindow;
-      } else {
-        delete (global as any).window;
-      }
-      
-      if (originalDocument !== undefined) {
-        (global as any).document = originalDocument;
-      } else {
-        delete (global as any).document;
-      }
-      
-      // 清理DOM
-      dom.window.close();
-    }
+  private async validateWithJSDOM(mermaidCode: string, context: RenderContext): Promise<void> {
+    await this.jsdomPool.parse(mermaidCode, context.signal);
   }
 
   /**
@@ -706,72 +2663,34 @@ export class SimpleMermaidMCPServer {
   }
 
   /**
-   * 检测图表类型（更精细的判断）
+   * 校验输出路径，none模式不写文件，不能同时指定输出路径
    */
-  private detectDiagramType(mermaidCode: string): string {
-    const code = mermaidCode.toLowerCase().trim();
-    
-    // 使用更精确的正则匹配
-    const patterns = [
-      { pattern: /^(graph|flowchart)\s+(TD|TB|BT|RL|LR)/, type: '流程图' },
-      { pattern: /^sequencediagram/m, type: '序列图' },
-      { pattern: /^classDiagram/m, type: '类图' },
-      { pattern: /^gantt/m, type: '甘特图' },
-      { pattern: /^pie(\s+title)?/m, type: '饼图' },
-      { pattern: /^erdiagram/m, type: 'ER图' },
-      { pattern: /^journey/m, type: '用户旅程图' },
-      { pattern: /^gitgraph/m, type: 'Git图' },
-      { pattern: /^mindmap/m, type: '思维导图' },
-      { pattern: /^timeline/m, type: '时间线' },
-      { pattern: /^requirementdiagram/m, type: '需求图' },
-      { pattern: /^statediagram(-v2)?/m, type: '状态图' }
-    ];
-
-    for (const { pattern, type } of patterns) {
-      if (pattern.test(code)) {
-        return type;
-      }
+  private validateOutputTarget(outputMode: OutputMode, outputPath: unknown): string | null {
+    if (outputMode === 'none' && outputPath !== undefined) {
+      return 'outputMode 为 none 时不能指定 outputPath';
     }
-    
-    return '未知类型';
-  }
-
-  /**
-   * 创建临时SVG文件
-   */
-  private async createTempSVGFile(svg: string, title: string): Promise<string> {
-    const tempDir = os.tmpdir();
-    const sanitizedTitle = sanitizeFileName(title);
-    const fileName = `mermaid_${sanitizedTitle}_${Date.now()}.svg`;
-    const filePath = path.join(tempDir, fileName);
-    
-    await fs.writeFile(filePath, svg, 'utf8');
-    
-    return filePath;
+    return validateOutputPath(outputPath);
   }
 
   /**
-   * 获取底层服务器实例（用于SSE模式）
+   * 关闭服务器持有的浏览器资源
    */
-  getServer(): Server {
-    return this.server;
+  async close(): Promise<void> {
+    await Promise.all([this.browserPool.close(), this.jsdomPool.close()]);
   }
 
   /**
    * 启动服务器
    */
   async run(): Promise<void> {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
-    console.error('🚀 Mermaid Chart MCP服务器已启动');
+    await this.connect(new StdioServerTransport());
+
+    // 客户端断开后释放浏览器，避免Chromium子进程让进程无法退出
+    process.stdin.once('end', () => {
+      this.close().catch((error) => {
+        log.error('关闭浏览器池失败', errorFields(error));
+      });
+    });
+    log.info('Mermaid Chart MCP服务器已启动', { mode: 'stdio' });
   }
 }
-
-// 如果直接运行此文件
-if (import.meta.url === `file://${process.argv[1]}`) {
-  const server = new SimpleMermaidMCPServer();
-  server.run().catch((error) => {
-    console.error('❌ 服务器启动失败:', error);
-    process.exit(1);
-  });
-} 
\ No newline at end of file
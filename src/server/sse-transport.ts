@@ -1,24 +1,77 @@
 /**
  * SSE传输模块
- * 负责Web服务器、CORS、健康检查和SSE连接管理
+ * 负责Web服务器、CORS、健康检查、HTTP渲染接口，以及Streamable HTTP和旧版SSE会话管理
  */
 
 import express from 'express';
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
 import type { SimpleMermaidMCPServer } from './simple-mcp-server.js';
+import { createHttpApiRouter } from './http-api.js';
+import { ApiKey, ApiKeyAuth, getRequestApiKey, getRequestClientId } from './auth.js';
+import {
+  SESSION_ID_HEADER,
+  StreamableHTTPServerTransport,
+  isInitializeRequest,
+  jsonRpcError,
+  parseJSONRPCMessages
+} from './streamable-http-transport.js';
+import { createLogger, createRequestId, errorFields, withLogContext } from './logger.js';
+
+const log = createLogger('http');
+
+/**
+ * 请求关联ID的请求头：客户端提供时沿用，否则由服务器生成，并在响应中返回
+ */
+const REQUEST_ID_HEADER = 'X-Request-Id';
+
+/**
+ * 旧版SSE传输接收客户端消息的端点
+ */
+const SSE_MESSAGES_PATH = '/messages';
+
+/**
+ * HTTP服务器配置
+ */
+export interface SSETransportOptions {
+  /** API密钥认证，未设置时从环境变量读取密钥 */
+  auth: ApiKeyAuth;
+  /** Streamable HTTP会话空闲多少分钟后关闭 */
+  sessionIdleMinutes: number;
+  /** CORS允许的来源，* 表示任意来源 */
+  allowedOrigins: string[];
+  /** 嵌入接口响应的 Cache-Control max-age（秒） */
+  embedCacheMaxAge: number;
+}
 
 export class SSETransport {
   private mcpServer: SimpleMermaidMCPServer;
-  private activeConnections = new Set<SSEServerTransport>();
+  /** 旧版SSE会话，按SDK生成的sessionId索引 */
+  private sseSessions = new Map<string, SSEServerTransport>();
+  /** Streamable HTTP会话，按 Mcp-Session-Id 索引 */
+  private mcpSessions = new Map<string, StreamableHTTPServerTransport>();
+  /** 创建会话时使用的API密钥，之后的请求必须使用同一个密钥 */
+  private sessionOwners = new WeakMap<Transport, ApiKey>();
+  private idleSweepTimer?: NodeJS.Timeout;
+  private auth: ApiKeyAuth;
+  private options: Omit<SSETransportOptions, 'auth'>;
 
-  constructor(mcpServer: SimpleMermaidMCPServer) {
+  constructor(mcpServer: SimpleMermaidMCPServer, options: Partial<SSETransportOptions> = {}) {
     this.mcpServer = mcpServer;
+    this.auth = options.auth ?? new ApiKeyAuth();
+    this.options = {
+      sessionIdleMinutes: options.sessionIdleMinutes ?? parseInt(process.env.MERMAID_MCP_SESSION_IDLE_MINUTES || '30'),
+      allowedOrigins: options.allowedOrigins
+        ?? (process.env.ALLOWED_ORIGINS ? process.env.ALLOWED_ORIGINS.split(',').map((allowed) => allowed.trim()) : ['*']),
+      embedCacheMaxAge: options.embedCacheMaxAge ?? parseInt(process.env.MERMAID_EMBED_CACHE_MAX_AGE || '86400')
+    };
   }
 
   /**
-   * 启动SSE模式的Web服务器
+   * 启动SSE模式的Web服务器，未指定 host 时监听所有网络接口
    */
-  async start(port: number = 3000): Promise<void> {
+  async start(port: number = 3000, host?: string): Promise<void> {
     const app = express();
     
     // 配置CORS中间件
@@ -30,53 +83,45 @@ export class SSETransport {
     // 请求体大小限制和安全性
     app.use(express.urlencoded({ extended: false, limit: '10mb' }));
 
-    // SSE连接端点
-    app.get('/sse', async (_req, res) => {
-      console.error('🔗 新的SSE连接');
-      
-      res.writeHead(200, {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Headers': 'Cache-Control'
-      });
+    // 请求关联ID和访问日志（放在请求体解析之后，解析回调不在日志上下文中执行）
+    this.setupRequestContext(app);
 
-      const transport = new SSEServerTransport('/sse', res);
-      this.activeConnections.add(transport);
-      
-      // 连接关闭时清理资源
-      res.on('close', () => {
-        console.error('🔌 SSE连接关闭');
-        this.activeConnections.delete(transport);
-      });
+    // Streamable HTTP端点
+    this.setupStreamableHttp(app);
 
-      res.on('error', (error) => {
-        console.error('❌ SSE连接错误:', error);
-        this.activeConnections.delete(transport);
-      });
+    // 旧版SSE端点
+    this.setupLegacySSE(app);
 
-      try {
-        await this.mcpServer.getServer().connect(transport);
-      } catch (error) {
-        console.error('❌ MCP服务器连接失败:', error);
-        this.activeConnections.delete(transport);
-        res.end();
-      }
-    });
+    // HTTP渲染接口
+    app.use(createHttpApiRouter(this.mcpServer, this.auth, { embedCacheMaxAge: this.options.embedCacheMaxAge }));
 
-    // 健康检查端点
+    // 健康检查端点（不需要认证，只返回汇总数据，不包含密钥名称和客户端地址）
     app.get('/health', (_req, res) => {
+      const { trackedClients, activeRenders, rejected } = this.mcpServer.getRateLimitUsage();
       res.json({ 
         status: 'healthy', 
         mode: 'sse',
         port: port,
-        activeConnections: this.activeConnections.size,
+        sessions: {
+          streamableHttp: this.mcpSessions.size,
+          sse: this.sseSessions.size
+        },
+        rateLimit: { trackedClients, activeRenders, rejected },
         timestamp: new Date().toISOString(),
         version: '1.0.0'
       });
     });
 
+    // Prometheus指标端点
+    app.get('/metrics', this.auth.require('admin'), (_req, res) => {
+      res.type('text/plain; version=0.0.4; charset=utf-8').send(this.mcpServer.getPrometheusMetrics());
+    });
+
+    // 限流配置和各客户端的使用情况
+    app.get('/api/rate-limit', this.auth.require('admin'), (_req, res) => {
+      res.json(this.mcpServer.getRateLimitUsage());
+    });
+
     // API信息端点
     app.get('/api/info', (_req, res) => {
       res.json({
@@ -84,11 +129,19 @@ export class SSETransport {
         version: '1.0.0',
         description: '一个专注于Mermaid图表渲染的MCP服务器',
         endpoints: {
+          mcp: '/mcp',
           sse: '/sse',
+          messages: `POST ${SSE_MESSAGES_PATH}`,
           health: '/health',
-          info: '/api/info'
+          metrics: '/metrics',
+          rateLimit: '/api/rate-limit',
+          info: '/api/info',
+          render: 'POST /api/render',
+          validate: 'POST /api/validate',
+          embed: 'GET /mermaid/{svg|png}/{encoded}'
         },
-        capabilities: ['render_mermaid_to_svg', 'validate_mermaid_syntax']
+        authentication: this.auth.enabled ? { type: 'bearer', headers: ['Authorization', 'X-API-Key'] } : { type: 'none' },
+        capabilities: ['render_mermaid_to_svg', 'render_mermaid_to_png', 'render_mermaid_to_pdf', 'render_mermaid_batch', 'validate_mermaid_syntax', 'detect_diagram_type', 'lint_mermaid', 'fix_mermaid', 'list_rendered_files', 'delete_rendered_file', 'clear_render_cache', 'get_server_stats']
       });
     });
 
@@ -102,13 +155,22 @@ export class SSETransport {
       res.status(404).json({
         error: 'Not Found',
         message: `端点 ${req.path} 不存在`,
-        availableEndpoints: ['/', '/sse', '/health', '/api/info']
+        availableEndpoints: ['/', '/mcp', '/sse', `POST ${SSE_MESSAGES_PATH}`, '/health', '/metrics', '/api/rate-limit', '/api/info', 'POST /api/render', 'POST /api/validate', 'GET /mermaid/{svg|png}/{encoded}']
       });
     });
 
     // 错误处理中间件
-    app.use((error: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
-      console.error('❌ 服务器错误:', error);
+    app.use((error: Error & { status?: number }, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+      // 请求体无法解析或过大时返回客户端错误
+      if (error.status && error.status >= 400 && error.status < 500) {
+        res.status(error.status).json({
+          error: error.status === 413 ? 'Payload Too Large' : 'Bad Request',
+          message: `请求体无效: ${error.message}`
+        });
+        return;
+      }
+
+      log.error('服务器错误', errorFields(error));
       res.status(500).json({
         error: 'Internal Server Error',
         message: '服务器内部错误'
@@ -116,53 +178,240 @@ export class SSETransport {
     });
 
     // 启动服务器
-    const server = app.listen(port, () => {
-      console.error(`🌐 Mermaid Chart MCP 服务器已启动 (SSE 模式)`);
-      console.error(`📡 SSE 端点: http://localhost:${port}/sse`);
-      console.error(`🏠 测试页面: http://localhost:${port}/`);
-      console.error(`💚 健康检查: http://localhost:${port}/health`);
-      console.error(`📋 API信息: http://localhost:${port}/api/info`);
-    });
+    const onListening = () => {
+      log.info('Mermaid Chart MCP 服务器已启动', {
+        mode: 'http',
+        url: `http://${host && host !== '0.0.0.0' && host !== '::' ? host : 'localhost'}:${port}/`,
+        mcp: '/mcp',
+        sse: '/sse',
+        health: '/health',
+        info: '/api/info',
+        metrics: '/metrics',
+        render: 'POST /api/render',
+        embed: 'GET /mermaid/{svg|png}/{encoded}'
+      });
+      if (this.auth.enabled) {
+        log.info('已启用API密钥认证');
+      } else {
+        log.warn('未配置API密钥（MERMAID_API_KEYS / MERMAID_API_KEYS_FILE），所有接口无需认证');
+      }
+    };
+    const server = host ? app.listen(port, host, onListening) : app.listen(port, onListening);
 
     // 优雅关闭处理
-    process.on('SIGTERM', () => {
-      console.error('🛑 收到SIGTERM信号，正在关闭服务器...');
-      this.cleanup();
+    process.on('SIGTERM', async () => {
+      log.info('收到SIGTERM信号，正在关闭服务器');
+      await this.cleanup();
+      await this.mcpServer.close();
       server.close(() => {
-        console.error('✅ 服务器已关闭');
+        log.info('服务器已关闭');
         process.exit(0);
       });
     });
 
-    process.on('SIGINT', () => {
-      console.error('🛑 收到SIGINT信号，正在关闭服务器...');
-      this.cleanup();
+    process.on('SIGINT', async () => {
+      log.info('收到SIGINT信号，正在关闭服务器');
+      await this.cleanup();
+      await this.mcpServer.close();
       server.close(() => {
-        console.error('✅ 服务器已关闭');
+        log.info('服务器已关闭');
         process.exit(0);
       });
     });
   }
 
+  /**
+   * Streamable HTTP传输：POST发送消息，GET打开通知流，DELETE结束会话
+   */
+  private setupStreamableHttp(app: express.Application): void {
+    // MCP端点只要求通过认证，工具按密钥的权限范围过滤
+    const requireAuth = this.auth.require();
+
+    app.post('/mcp', requireAuth, async (req, res) => {
+      let parsed: ReturnType<typeof parseJSONRPCMessages>;
+      try {
+        parsed = parseJSONRPCMessages(req.body);
+      } catch (error) {
+        res.status(400).json(jsonRpcError(-32600, error instanceof Error ? error.message : String(error)));
+        return;
+      }
+
+      const sessionId = req.get(SESSION_ID_HEADER);
+      let transport: StreamableHTTPServerTransport | undefined;
+      if (sessionId) {
+        transport = this.findSession(this.mcpSessions, sessionId, res);
+        if (!transport) {
+          res.status(404).json(jsonRpcError(-32001, '会话不存在或已过期'));
+          return;
+        }
+      } else if (isInitializeRequest(parsed.messages)) {
+        const newTransport = new StreamableHTTPServerTransport();
+        try {
+          await this.connectSession(newTransport, req, res, () => {
+            this.mcpSessions.delete(newTransport.sessionId);
+            log.info('MCP会话关闭', { sessionId: newTransport.sessionId });
+          });
+        } catch (error) {
+          log.error('MCP服务器连接失败', errorFields(error));
+          res.status(500).json(jsonRpcError(-32603, '无法创建会话'));
+          return;
+        }
+        this.mcpSessions.set(newTransport.sessionId, newTransport);
+        log.info('新的MCP会话', { sessionId: newTransport.sessionId });
+        transport = newTransport;
+      } else {
+        res.status(400).json(jsonRpcError(-32000, `缺少 ${SESSION_ID_HEADER} 请求头，请先发送 initialize 请求`));
+        return;
+      }
+
+      await transport.handlePost(req, res, parsed.messages, parsed.batch);
+    });
+
+    app.get('/mcp', requireAuth, (req, res) => {
+      if (!(req.get('Accept') ?? '').includes('text/event-stream')) {
+        res.status(405).set('Allow', 'POST, DELETE').json(jsonRpcError(-32000, 'GET 请求需要接受 text/event-stream'));
+        return;
+      }
+      const transport = this.getMcpSession(req, res);
+      transport?.handleGet(res);
+    });
+
+    app.delete('/mcp', requireAuth, async (req, res) => {
+      const transport = this.getMcpSession(req, res);
+      if (transport) {
+        await transport.close();
+        res.status(204).end();
+      }
+    });
+
+    // 定期关闭长时间没有活动的会话
+    const idleMs = this.options.sessionIdleMinutes * 60 * 1000;
+    this.idleSweepTimer = setInterval(() => {
+      for (const transport of this.mcpSessions.values()) {
+        if (transport.isIdle(idleMs)) {
+          transport.close().catch(() => {});
+        }
+      }
+    }, Math.min(idleMs, 60 * 1000));
+    this.idleSweepTimer.unref();
+  }
+
+  /**
+   * 按请求头查找Streamable HTTP会话，找不到时直接返回错误响应
+   */
+  private getMcpSession(req: express.Request, res: express.Response): StreamableHTTPServerTransport | undefined {
+    const sessionId = req.get(SESSION_ID_HEADER);
+    if (!sessionId) {
+      res.status(400).json(jsonRpcError(-32000, `缺少 ${SESSION_ID_HEADER} 请求头`));
+      return undefined;
+    }
+    const transport = this.findSession(this.mcpSessions, sessionId, res);
+    if (!transport) {
+      res.status(404).json(jsonRpcError(-32001, '会话不存在或已过期'));
+      return undefined;
+    }
+    return transport;
+  }
+
+  /**
+   * 按ID查找会话；会话属于其他API密钥时视为不存在，避免泄露其他客户端的会话
+   */
+  private findSession<T extends Transport>(sessions: Map<string, T>, sessionId: string, res: express.Response): T | undefined {
+    const transport = sessions.get(sessionId);
+    return transport && this.sessionOwners.get(transport) === getRequestApiKey(res) ? transport : undefined;
+  }
+
+  /**
+   * 为通过认证的请求创建MCP会话，会话只能使用该密钥有权限的工具
+   */
+  private async connectSession(
+    transport: Transport,
+    req: express.Request,
+    res: express.Response,
+    onClose: () => void
+  ): Promise<void> {
+    const apiKey = getRequestApiKey(res);
+    if (apiKey) {
+      this.sessionOwners.set(transport, apiKey);
+    }
+    // 工具调用按密钥（或客户端IP）限流，与HTTP渲染接口共用配额
+    await this.mcpServer.connect(transport, {
+      onClose,
+      scopes: apiKey?.scopes,
+      clientId: getRequestClientId(req, res),
+      transport: transport instanceof SSEServerTransport ? 'sse' : 'streamable-http'
+    });
+  }
+
+  /**
+   * 旧版SSE传输（MCP 2024-11-05）：GET /sse 建立事件流，客户端向 endpoint 事件给出的地址POST消息
+   */
+  private setupLegacySSE(app: express.Application): void {
+    const requireAuth = this.auth.require();
+
+    app.get('/sse', requireAuth, async (req, res) => {
+      // SSEServerTransport.start() 会自行写入SSE响应头
+      const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+      this.sseSessions.set(transport.sessionId, transport);
+      log.info('新的SSE连接', { sessionId: transport.sessionId });
+
+      try {
+        await this.connectSession(transport, req, res, () => {
+          this.sseSessions.delete(transport.sessionId);
+          log.info('SSE连接关闭', { sessionId: transport.sessionId });
+        });
+      } catch (error) {
+        log.error('MCP服务器连接失败', errorFields(error));
+        this.sseSessions.delete(transport.sessionId);
+        res.end();
+      }
+    });
+
+    app.post(SSE_MESSAGES_PATH, requireAuth, async (req, res) => {
+      const sessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId : undefined;
+      const transport = sessionId ? this.findSession(this.sseSessions, sessionId, res) : undefined;
+      if (!transport) {
+        res.status(404).json({ error: 'Not Found', message: 'SSE会话不存在或已关闭' });
+        return;
+      }
+
+      // 请求体已由 express.json 解析，不能再使用会读取原始请求流的 handlePostMessage
+      let messages: JSONRPCMessage[];
+      try {
+        ({ messages } = parseJSONRPCMessages(req.body));
+      } catch (error) {
+        res.status(400).json({ error: 'Bad Request', message: error instanceof Error ? error.message : String(error) });
+        return;
+      }
+      for (const message of messages) {
+        await transport.handleMessage(message);
+      }
+      res.status(202).send('Accepted');
+    });
+  }
+
   /**
    * 配置CORS中间件
    */
   private setupCORS(app: express.Application): void {
     app.use((req, res, next) => {
       // 在生产环境中，应该配置具体的域名白名单
-      const allowedOrigins = process.env.ALLOWED_ORIGINS 
-        ? process.env.ALLOWED_ORIGINS.split(',')
-        : ['*'];
-      
+      const { allowedOrigins } = this.options;
+
       const origin = req.headers.origin;
       
-      if (allowedOrigins.includes('*') || (origin && allowedOrigins.includes(origin))) {
-        res.header('Access-Control-Allow-Origin', origin || '*');
+      // 白名单中的域名回显Origin并允许携带凭据；通配符只返回 *，浏览器不允许 * 与凭据同时使用
+      if (origin && allowedOrigins.includes(origin)) {
+        res.header('Access-Control-Allow-Origin', origin);
+        res.header('Access-Control-Allow-Credentials', 'true');
+      } else if (allowedOrigins.includes('*')) {
+        res.header('Access-Control-Allow-Origin', '*');
       }
+      res.vary('Origin');
       
       res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS, PUT, DELETE');
-      res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, Cache-Control');
-      res.header('Access-Control-Allow-Credentials', 'true');
+      res.header('Access-Control-Allow-Headers', `Content-Type, Authorization, X-API-Key, Cache-Control, ${SESSION_ID_HEADER}, ${REQUEST_ID_HEADER}`);
+      res.header('Access-Control-Expose-Headers', `${SESSION_ID_HEADER}, ${REQUEST_ID_HEADER}`);
       res.header('Access-Control-Max-Age', '86400'); // 24小时
       
       if (req.method === 'OPTIONS') {
@@ -174,18 +423,38 @@ export class SSETransport {
   }
 
   /**
-   * 清理活动连接
+   * 为每个请求分配关联ID：请求处理过程中（包括渲染器降级）的日志都带有该ID，请求结束时记录访问日志
    */
-  private cleanup(): void {
-    console.error(`🧹 清理 ${this.activeConnections.size} 个活动连接...`);
-    for (const connection of this.activeConnections) {
-      try {
-        // 这里可以添加连接清理逻辑
-        this.activeConnections.delete(connection);
-      } catch (error) {
-        console.error('❌ 清理连接时出错:', error);
-      }
-    }
+  private setupRequestContext(app: express.Application): void {
+    app.use((req, res, next) => {
+      const requestId = validateRequestId(req.get(REQUEST_ID_HEADER)) ?? createRequestId();
+      res.set(REQUEST_ID_HEADER, requestId);
+
+      const startedAt = Date.now();
+      // 事件回调不在请求的日志上下文中执行，需要显式带上关联ID
+      res.once('finish', () => {
+        log.debug('HTTP请求', {
+          requestId,
+          method: req.method,
+          path: req.path,
+          status: res.statusCode,
+          durationMs: Date.now() - startedAt
+        });
+      });
+      withLogContext({ requestId }, next);
+    });
+  }
+
+  /**
+   * 关闭所有会话
+   */
+  private async cleanup(): Promise<void> {
+    clearInterval(this.idleSweepTimer);
+    const transports = [...this.mcpSessions.values(), ...this.sseSessions.values()];
+    log.info('关闭所有会话', { sessions: transports.length });
+    await Promise.all(transports.map((transport) => transport.close().catch((error) => {
+      log.warn('关闭会话时出错', errorFields(error));
+    })));
   }
 
   /**
@@ -376,7 +645,7 @@ export class SSETransport {
             </div>
             <div class="status-card">
                 <h3>🔗 连接方式</h3>
-                <p>Server-Sent Events (SSE)</p>
+                <p>Streamable HTTP (/mcp) 和 Server-Sent Events (/sse)</p>
             </div>
             <div class="status-card">
                 <h3>🛠️ 可用工具</h3>
@@ -438,7 +707,7 @@ export class SSETransport {
                     '✅ 图表渲染完成!<br>' +
                     '📊 检测到的图表类型: 流程图<br>' +
                     '🎨 使用主题: default<br>' +
-                    '📁 临时文件已创建<br>' +
+                    '📁 文件写入输出目录<br>' +
                     '💡 在实际应用中，这里会显示SVG内容或文件路径';
             }, 1500);
         }
@@ -475,4 +744,11 @@ export class SSETransport {
 </body>
 </html>`;
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * 只沿用格式安全的客户端关联ID（避免日志注入和过长的值）
+ */
+function validateRequestId(value: string | undefined): string | undefined {
+  return value && /^[\w.-]{1,64}$/.test(value) ? value : undefined;
+}
@@ -0,0 +1,257 @@
+/**
+ * Streamable HTTP传输模块
+ * 实现MCP的Streamable HTTP传输（单个 /mcp 端点）：客户端用POST发送消息，
+ * 服务器按请求以JSON或SSE流返回响应，GET打开接收服务器通知的SSE流，DELETE结束会话
+ */
+
+import { randomUUID } from 'crypto';
+import type express from 'express';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessage, JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * 会话ID请求头和响应头
+ */
+export const SESSION_ID_HEADER = 'Mcp-Session-Id';
+
+type RequestId = string | number;
+
+/**
+ * 一个等待响应的POST请求
+ */
+interface PendingPost {
+  res: express.Response;
+  /** 以SSE流返回（客户端接受 text/event-stream 时），否则以JSON返回 */
+  stream: boolean;
+  /** 请求体是否为批量消息（JSON模式下决定返回数组还是单个对象） */
+  batch: boolean;
+  remaining: Set<RequestId>;
+  responses: JSONRPCMessage[];
+  progressTokens: RequestId[];
+}
+
+/**
+ * 解析并校验POST请求体中的JSON-RPC消息（单个或批量），格式错误时抛出错误
+ */
+export function parseJSONRPCMessages(body: unknown): { messages: JSONRPCMessage[]; batch: boolean } {
+  const batch = Array.isArray(body);
+  const items = batch ? body as unknown[] : [body];
+  if (items.length === 0) {
+    throw new Error('批量消息不能为空');
+  }
+  const messages = items.map((item, index) => {
+    const result = JSONRPCMessageSchema.safeParse(item);
+    if (!result.success) {
+      throw new Error(batch ? `第 ${index + 1} 条消息不是有效的JSON-RPC消息` : '不是有效的JSON-RPC消息');
+    }
+    return result.data;
+  });
+  return { messages, batch };
+}
+
+/**
+ * 消息中是否包含 initialize 请求
+ */
+export function isInitializeRequest(messages: JSONRPCMessage[]): boolean {
+  return messages.some((message) => 'method' in message && message.method === 'initialize' && 'id' in message);
+}
+
+export class StreamableHTTPServerTransport implements Transport {
+  readonly sessionId = randomUUID();
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private lastActivity = Date.now();
+  private closed = false;
+  /** GET打开的SSE流，用于发送与请求无关的通知（如资源列表变化） */
+  private standaloneStream?: express.Response;
+  private pendingRequests = new Map<RequestId, PendingPost>();
+  /** 进度通知按 progressToken 发送到发起请求的SSE流 */
+  private progressStreams = new Map<RequestId, PendingPost>();
+
+  async start(): Promise<void> {
+    // 连接由HTTP请求驱动，无需额外的启动步骤
+  }
+
+  /**
+   * 处理POST请求：只有通知和响应时返回202，包含请求时等待所有响应
+   */
+  async handlePost(req: express.Request, res: express.Response, messages: JSONRPCMessage[], batch: boolean): Promise<void> {
+    this.lastActivity = Date.now();
+    res.setHeader(SESSION_ID_HEADER, this.sessionId);
+
+    const requests = messages.filter((message) => 'method' in message && 'id' in message);
+    if (requests.length === 0) {
+      res.status(202).end();
+      this.deliver(messages);
+      return;
+    }
+
+    const pending: PendingPost = {
+      res,
+      stream: (req.get('Accept') ?? '').includes('text/event-stream'),
+      batch,
+      remaining: new Set(),
+      responses: [],
+      progressTokens: []
+    };
+    for (const request of requests) {
+      const { id, params } = request as { id: RequestId; params?: { _meta?: { progressToken?: RequestId } } };
+      pending.remaining.add(id);
+      this.pendingRequests.set(id, pending);
+      const progressToken = params?._meta?.progressToken;
+      if (progressToken !== undefined) {
+        pending.progressTokens.push(progressToken);
+        this.progressStreams.set(progressToken, pending);
+      }
+    }
+
+    if (pending.stream) {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+      });
+      res.flushHeaders();
+    }
+
+    // 客户端提前断开时丢弃尚未发送的响应，并像 notifications/cancelled 一样取消未完成的请求，释放浏览器和工作线程
+    res.on('close', () => {
+      const unfinished = [...pending.remaining];
+      this.releasePending(pending);
+      if (!this.closed && unfinished.length > 0) {
+        this.deliver(unfinished.map((requestId) => ({
+          jsonrpc: '2.0' as const,
+          method: 'notifications/cancelled',
+          params: { requestId, reason: '客户端已断开连接' }
+        })));
+      }
+    });
+
+    this.deliver(messages);
+  }
+
+  /**
+   * 处理GET请求：打开接收服务器通知的SSE流（每个会话最多一个）
+   */
+  handleGet(res: express.Response): void {
+    this.lastActivity = Date.now();
+    if (this.standaloneStream) {
+      res.status(409).json(jsonRpcError(-32000, '该会话已经打开了SSE流'));
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      [SESSION_ID_HEADER]: this.sessionId
+    });
+    res.flushHeaders();
+    this.standaloneStream = res;
+    res.on('close', () => {
+      if (this.standaloneStream === res) {
+        this.standaloneStream = undefined;
+        this.lastActivity = Date.now();
+      }
+    });
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this.closed) {
+      throw new Error('会话已关闭');
+    }
+
+    // 响应发送到对应请求所在的POST
+    if (!('method' in message)) {
+      const pending = this.pendingRequests.get(message.id);
+      if (!pending) {
+        return;
+      }
+      this.pendingRequests.delete(message.id);
+      pending.remaining.delete(message.id);
+      if (pending.stream) {
+        writeEvent(pending.res, message);
+      } else {
+        pending.responses.push(message);
+      }
+      if (pending.remaining.size === 0) {
+        this.finishPending(pending);
+      }
+      return;
+    }
+
+    // 进度通知发送到发起请求的SSE流，其余通知和请求发送到GET打开的SSE流，没有可用的流时丢弃
+    const progressToken = message.method === 'notifications/progress'
+      ? (message.params as { progressToken?: RequestId } | undefined)?.progressToken
+      : undefined;
+    const pending = progressToken !== undefined ? this.progressStreams.get(progressToken) : undefined;
+    if (pending?.stream) {
+      writeEvent(pending.res, message);
+    } else if (this.standaloneStream) {
+      writeEvent(this.standaloneStream, message);
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+
+    for (const pending of new Set(this.pendingRequests.values())) {
+      pending.res.end();
+    }
+    this.pendingRequests.clear();
+    this.progressStreams.clear();
+    this.standaloneStream?.end();
+    this.standaloneStream = undefined;
+    this.onclose?.();
+  }
+
+  /**
+   * 超过空闲时间且没有打开的流和未完成的请求
+   */
+  isIdle(idleMs: number): boolean {
+    return !this.standaloneStream && this.pendingRequests.size === 0 && Date.now() - this.lastActivity > idleMs;
+  }
+
+  private deliver(messages: JSONRPCMessage[]): void {
+    for (const message of messages) {
+      this.onmessage?.(message);
+    }
+  }
+
+  private finishPending(pending: PendingPost): void {
+    this.releasePending(pending);
+    this.lastActivity = Date.now();
+    if (pending.stream) {
+      pending.res.end();
+    } else {
+      pending.res.json(pending.batch ? pending.responses : pending.responses[0]);
+    }
+  }
+
+  private releasePending(pending: PendingPost): void {
+    for (const id of pending.remaining) {
+      this.pendingRequests.delete(id);
+    }
+    for (const token of pending.progressTokens) {
+      if (this.progressStreams.get(token) === pending) {
+        this.progressStreams.delete(token);
+      }
+    }
+  }
+}
+
+/**
+ * 不属于任何请求的JSON-RPC错误响应
+ */
+export function jsonRpcError(code: number, message: string): { jsonrpc: '2.0'; error: { code: number; message: string }; id: null } {
+  return { jsonrpc: '2.0', error: { code, message }, id: null };
+}
+
+function writeEvent(res: express.Response, message: JSONRPCMessage): void {
+  res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+}
@@ -0,0 +1,281 @@
+/**
+ * 语法诊断模块
+ * 将Mermaid解析错误（jison的hash、Langium的词法/语法错误）转换为带行列号、期望记号和源码片段的结构化诊断
+ */
+
+/**
+ * 诊断严重程度
+ */
+export type DiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * 结构化语法诊断（行列号从1开始，对应调用方传入的原始代码）
+ */
+export interface SyntaxDiagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  line: number;
+  column: number;
+  /** 期望的记号 */
+  expected: string[];
+  /** 实际遇到的记号 */
+  found?: string;
+  /** 带行号和^标记的源码片段 */
+  excerpt: string;
+  /** 产生诊断的校验器（lint 为代码检查规则） */
+  source: 'mermaid' | 'static' | 'lint';
+}
+
+/**
+ * 可在线程和页面之间传递的解析错误信息
+ */
+export interface ParseErrorDetails {
+  message: string;
+  /** jison解析器的错误信息（行号对应预处理后的代码） */
+  hash?: {
+    text?: string;
+    token?: string | number;
+    loc?: { first_line: number; first_column: number; last_line: number; last_column: number };
+    expected?: string[];
+  };
+  /** Langium解析器的词法错误（偏移量对应预处理后的代码） */
+  lexerErrors?: Array<{ offset: number; length?: number; message: string }>;
+  /** Langium解析器的语法错误 */
+  parserErrors?: Array<{ message: string; offset?: number; image?: string; tokenType?: string }>;
+}
+
+/**
+ * 带结构化诊断的语法错误
+ */
+export class MermaidSyntaxError extends Error {
+  constructor(message: string, readonly diagnostics: SyntaxDiagnostic[]) {
+    super(message);
+    this.name = 'MermaidSyntaxError';
+  }
+}
+
+/**
+ * 从 mermaid.parse 抛出的错误中提取可序列化的信息
+ * Puppeteer页面脚本中有相同逻辑的实现（browser-pool.ts 的 describeParseError）
+ */
+export function extractParseErrorDetails(error: unknown): ParseErrorDetails {
+  const source = error as any;
+  const details: ParseErrorDetails = {
+    message: (source && source.message) || String(error)
+  };
+
+  if (source && source.hash) {
+    const { text, token, loc, expected } = source.hash;
+    details.hash = { text, token, loc, expected };
+  }
+
+  if (source && source.result) {
+    details.lexerErrors = (source.result.lexerErrors || []).map((item: any) => ({
+      offset: item.offset,
+      length: item.length,
+      message: item.message
+    }));
+    details.parserErrors = (source.result.parserErrors || []).map((item: any) => ({
+      message: item.message,
+      offset: item.token?.startOffset,
+      image: item.token?.image,
+      tokenType: item.token?.tokenType?.name
+    }));
+  }
+
+  return details;
+}
+
+/**
+ * 根据解析错误信息生成诊断
+ */
+export function buildSyntaxDiagnostics(code: string, details: ParseErrorDetails): SyntaxDiagnostic[] {
+  const mapping = preprocessWithOrigins(code);
+  const diagnostics: SyntaxDiagnostic[] = [];
+
+  // jison解析器（flowchart、sequence、class等）
+  const hash = details.hash;
+  if (hash?.loc) {
+    const isEof = !hash.text && (hash.token === 1 || hash.token === 'EOF');
+    let offset = lineStartOffset(mapping.text, hash.loc.first_line) + hash.loc.first_column;
+    if (isEof) {
+      // 代码意外结束时定位到最后一个字符之后
+      offset = mapping.text.trimEnd().length;
+    } else if (hash.text) {
+      // loc有时指向上一个记号，优先定位到出错记号本身
+      const index = mapping.text.indexOf(hash.text, offset);
+      if (index !== -1) {
+        offset = index;
+      }
+    }
+    diagnostics.push(createDiagnostic(code, mapping.toSourceOffset(offset), {
+      message: lastLine(details.message),
+      expected: (hash.expected ?? []).map(stripQuotes),
+      found: isEof ? 'EOF' : hash.text ? `'${hash.text}' (${hash.token})` : String(hash.token ?? ''),
+      source: 'mermaid'
+    }));
+    return diagnostics;
+  }
+
+  // Langium解析器（pie、gitGraph、packet等）
+  for (const lexerError of details.lexerErrors ?? []) {
+    diagnostics.push(createDiagnostic(code, mapping.toSourceOffset(lexerError.offset), {
+      message: lexerError.message,
+      expected: [],
+      found: mapping.text.substr(lexerError.offset, lexerError.length ?? 1),
+      source: 'mermaid'
+    }));
+  }
+  for (const parserError of details.parserErrors ?? []) {
+    // EOF记号的偏移量为NaN
+    const offset = Number.isFinite(parserError.offset) ? parserError.offset! : mapping.text.length;
+    const image = parserError.image?.trim() ? parserError.image : parserError.tokenType;
+    diagnostics.push(createDiagnostic(code, mapping.toSourceOffset(offset), {
+      message: parserError.message.replace(/`\n`|'\n'/g, 'NEWLINE').replace(/\s+/g, ' ').trim(),
+      expected: parseExpectedTokens(parserError.message),
+      found: image,
+      source: 'mermaid'
+    }));
+  }
+  if (diagnostics.length > 0) {
+    return diagnostics;
+  }
+
+  // 没有位置信息（如无法识别图表类型），定位到第一行有效内容
+  diagnostics.push(createDiagnostic(code, mapping.toSourceOffset(0), {
+    message: lastLine(details.message),
+    expected: [],
+    source: 'mermaid'
+  }));
+  return diagnostics;
+}
+
+/**
+ * 在原始代码的指定位置创建诊断
+ */
+export function createDiagnostic(
+  code: string,
+  offset: number,
+  fields: Pick<SyntaxDiagnostic, 'message' | 'expected' | 'found' | 'source'> & { severity?: DiagnosticSeverity }
+): SyntaxDiagnostic {
+  const { line, column } = offsetToPosition(code, offset);
+  return {
+    severity: fields.severity ?? 'error',
+    message: fields.message,
+    line,
+    column,
+    expected: fields.expected,
+    ...(fields.found !== undefined ? { found: fields.found } : {}),
+    excerpt: createExcerpt(code, line, column),
+    source: fields.source
+  };
+}
+
+/**
+ * 将诊断格式化为文本
+ */
+export function formatDiagnostics(diagnostics: SyntaxDiagnostic[]): string {
+  return diagnostics.map((diagnostic) => {
+    const lines = [`[${diagnostic.severity}] 第${diagnostic.line}行第${diagnostic.column}列: ${diagnostic.message}`];
+    if (diagnostic.found !== undefined) {
+      lines.push(`  实际: ${diagnostic.found}`);
+    }
+    if (diagnostic.expected.length > 0) {
+      lines.push(`  期望: ${diagnostic.expected.join(', ')}`);
+    }
+    lines.push(diagnostic.excerpt.split('\n').map((line) => `  ${line}`).join('\n'));
+    return lines.join('\n');
+  }).join('\n\n');
+}
+
+/**
+ * 生成带行号的源码片段（出错行及其上一行），并在出错列下方标记^
+ */
+function createExcerpt(code: string, line: number, column: number): string {
+  const lines = code.split(/\r\n?|\n/);
+  const firstLine = Math.max(1, line - 1);
+  const gutterWidth = String(line).length;
+
+  const excerpt: string[] = [];
+  for (let current = firstLine; current <= line; current++) {
+    excerpt.push(`${String(current).padStart(gutterWidth)} | ${lines[current - 1] ?? ''}`);
+  }
+  excerpt.push(`${' '.repeat(gutterWidth)} | ${' '.repeat(column - 1)}^`);
+  return excerpt.join('\n');
+}
+
+/**
+ * 原始代码中的偏移量转为行列号（从1开始）
+ */
+function offsetToPosition(code: string, offset: number): { line: number; column: number } {
+  const before = code.slice(0, Math.max(0, Math.min(offset, code.length)));
+  const lines = before.split(/\r\n?|\n/);
+  return { line: lines.length, column: lines[lines.length - 1]!.length + 1 };
+}
+
+/**
+ * 预处理后代码中第N行（从1开始）的起始偏移量
+ */
+function lineStartOffset(text: string, line: number): number {
+  let offset = 0;
+  for (let current = 1; current < line; current++) {
+    const next = text.indexOf('\n', offset);
+    if (next === -1) {
+      return text.length;
+    }
+    offset = next + 1;
+  }
+  return offset;
+}
+
+/**
+ * 按Mermaid的预处理规则（frontmatter、%%{init}%%指令、注释和开头空白）删除内容，
+ * 并记录每个保留字符在原始代码中的偏移量，用于把解析器报告的位置映射回原始代码
+ */
+export function preprocessWithOrigins(code: string): { text: string; toSourceOffset: (offset: number) => number } {
+  // 解析器报告的偏移量以UTF-16码元计，这里同样按码元处理
+  let text = code;
+  let origins = Array.from({ length: code.length }, (_, index) => index);
+
+  const remove = (pattern: RegExp) => {
+    const keep = new Array<boolean>(text.length).fill(true);
+    for (const match of text.matchAll(pattern)) {
+      keep.fill(false, match.index!, match.index! + match[0].length);
+    }
+    text = text.split('').filter((_, index) => keep[index]).join('');
+    origins = origins.filter((_, index) => keep[index]);
+  };
+
+  remove(/\r(?=\n)/g);
+  text = text.replace(/\r/g, '\n');
+  remove(/^-{3}\s*[\n\r](.*?)[\n\r]-{3}\s*[\n\r]+/gs);
+  remove(/%{2}{\s*(?:(\w+)\s*:|(\w+))\s*(?:(\w+)|((?:(?!}%{2}).|\r?\n)*))?\s*(?:}%{2})?/gi);
+  remove(/^\s*%%(?!{)[^\n]+\n?/gm);
+  remove(/^\s+/g);
+
+  return {
+    text,
+    toSourceOffset: (offset) => offset < origins.length ? origins[offset]! : code.trimEnd().length
+  };
+}
+
+/**
+ * 从Langium错误信息中提取期望的记号
+ */
+function parseExpectedTokens(message: string): string[] {
+  const single = /Expecting token of type '([^']*)'/.exec(message);
+  if (single) {
+    return [single[1]!];
+  }
+  const sequences = [...message.matchAll(/^\s*\d+\.\s*\[([^\]]+)\]/gm)].map((match) => match[1]!);
+  return [...new Set(sequences)];
+}
+
+function stripQuotes(token: string): string {
+  return token.replace(/^'(.*)'$/, '$1');
+}
+
+function lastLine(message: string): string {
+  const lines = message.trim().split('\n');
+  return lines[lines.length - 1]!.trim();
+}
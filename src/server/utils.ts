@@ -3,6 +3,38 @@
  * 包含输入校验、文件名清理等功能
  */
 
+/**
+ * 输入校验错误（参数不合法，HTTP接口返回400）
+ */
+export class InputValidationError extends Error {
+  constructor(message: string) {
+    super(`输入校验失败: ${message}`);
+    this.name = 'InputValidationError';
+  }
+}
+
+/**
+ * Mermaid内置主题
+ */
+export const MERMAID_THEMES = ['default', 'dark', 'forest', 'neutral', 'base'] as const;
+
+export type MermaidTheme = typeof MERMAID_THEMES[number];
+
+/**
+ * 输入限制
+ */
+export interface InputLimits {
+  /** Mermaid代码的最大字符数 */
+  maxCodeLength: number;
+  /** 允许使用的主题 */
+  themes: readonly MermaidTheme[];
+}
+
+export const DEFAULT_INPUT_LIMITS: InputLimits = {
+  maxCodeLength: 50000,
+  themes: MERMAID_THEMES
+};
+
 /**
  * 输入校验函数
  */
@@ -10,7 +42,7 @@ export function validateInput(params: {
   mermaidCode?: string;
   title?: string;
   theme?: string;
-}): string | null {
+}, limits: InputLimits = DEFAULT_INPUT_LIMITS): string | null {
   const { mermaidCode, title, theme } = params;
 
   // 验证Mermaid代码
@@ -21,8 +53,8 @@ export function validateInput(params: {
     if (mermaidCode.length === 0) {
       return 'mermaidCode 不能为空';
     }
-    if (mermaidCode.length > 50000) {
-      return 'mermaidCode 长度不能超过50000字符';
+    if (mermaidCode.length > limits.maxCodeLength) {
+      return `mermaidCode 长度不能超过${limits.maxCodeLength}字符`;
     }
     // 检查是否包含潜在的恶意内容
     if (/<script|javascript:|data:|vbscript:/i.test(mermaidCode)) {
@@ -49,15 +81,291 @@ export function validateInput(params: {
     if (typeof theme !== 'string') {
       return 'theme 必须是字符串';
     }
-    const allowedThemes = ['default', 'dark', 'forest', 'neutral'];
-    if (!allowedThemes.includes(theme)) {
-      return `theme 必须是以下值之一: ${allowedThemes.join(', ')}`;
+    if (!(limits.themes as readonly string[]).includes(theme)) {
+      return `theme 必须是以下值之一: ${limits.themes.join(', ')}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 位图导出参数校验函数
+ */
+export function validateImageOptions(params: {
+  format?: string;
+  scale?: number;
+  width?: number;
+  height?: number;
+  backgroundColor?: string;
+  quality?: number;
+}): string | null {
+  const { format, scale, width, height, backgroundColor, quality } = params;
+
+  // 验证格式
+  if (format !== undefined) {
+    const allowedFormats = ['png', 'jpeg', 'webp'];
+    if (typeof format !== 'string' || !allowedFormats.includes(format)) {
+      return `format 必须是以下值之一: ${allowedFormats.join(', ')}`;
+    }
+  }
+
+  // 验证缩放倍数
+  if (scale !== undefined) {
+    if (typeof scale !== 'number' || !Number.isFinite(scale) || scale < 0.1 || scale > 10) {
+      return 'scale 必须是0.1到10之间的数字';
+    }
+  }
+
+  // 验证尺寸
+  for (const [name, value] of [['width', width], ['height', height]] as const) {
+    if (value !== undefined) {
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 1 || value > 10000) {
+        return `${name} 必须是1到10000之间的数字`;
+      }
+    }
+  }
+
+  // 验证背景颜色（会注入到浏览器页面中，只允许简单的颜色写法）
+  if (backgroundColor !== undefined) {
+    if (typeof backgroundColor !== 'string') {
+      return 'backgroundColor 必须是字符串';
+    }
+    if (!/^(transparent|[a-zA-Z]{1,30}|#[0-9a-fA-F]{3,8}|rgba?\([\d\s.,%]+\)|hsla?\([\d\s.,%deg]+\))$/.test(backgroundColor)) {
+      return 'backgroundColor 不是有效的颜色值';
+    }
+    if (backgroundColor === 'transparent' && format === 'jpeg') {
+      return 'jpeg 格式不支持透明背景';
+    }
+  }
+
+  // 验证图片质量
+  if (quality !== undefined) {
+    if (typeof quality !== 'number' || !Number.isInteger(quality) || quality < 0 || quality > 100) {
+      return 'quality 必须是0到100之间的整数';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * PDF导出参数校验函数
+ */
+export function validatePdfOptions(params: {
+  pageSize?: string;
+  orientation?: string;
+  diagramCount?: number;
+}): string | null {
+  const { pageSize, orientation, diagramCount } = params;
+
+  // 验证纸张尺寸
+  if (pageSize !== undefined) {
+    const allowedSizes = ['A3', 'A4', 'A5', 'Letter', 'Legal', 'Tabloid'];
+    if (typeof pageSize !== 'string' || !allowedSizes.includes(pageSize)) {
+      return `pageSize 必须是以下值之一: ${allowedSizes.join(', ')}`;
+    }
+  }
+
+  // 验证纸张方向
+  if (orientation !== undefined) {
+    if (orientation !== 'portrait' && orientation !== 'landscape') {
+      return 'orientation 必须是 portrait 或 landscape';
+    }
+  }
+
+  // 验证图表数量
+  if (diagramCount === undefined) {
+    return 'diagrams 必须是数组';
+  }
+  if (diagramCount === 0) {
+    return 'diagrams 不能为空';
+  }
+  if (diagramCount > 50) {
+    return 'diagrams 最多包含50个图表';
+  }
+
+  return null;
+}
+
+/**
+ * 渲染器选择参数校验函数
+ */
+export function validateRendererOptions(params: {
+  renderer?: string;
+  allowFallback?: boolean;
+}): string | null {
+  const { renderer, allowFallback } = params;
+
+  // 验证渲染器
+  if (renderer !== undefined) {
+    const allowedRenderers = ['auto', 'puppeteer', 'jsdom', 'static'];
+    if (typeof renderer !== 'string' || !allowedRenderers.includes(renderer)) {
+      return `renderer 必须是以下值之一: ${allowedRenderers.join(', ')}`;
     }
   }
 
+  // 验证降级开关
+  if (allowFallback !== undefined && typeof allowFallback !== 'boolean') {
+    return 'allowFallback 必须是布尔值';
+  }
+
   return null;
 }
 
+/**
+ * 返回方式参数校验函数
+ */
+export function validateOutputMode(outputMode: unknown): string | null {
+  const allowedModes = ['inline', 'file', 'resource', 'none'];
+  if (outputMode !== undefined && (typeof outputMode !== 'string' || !allowedModes.includes(outputMode))) {
+    return `outputMode 必须是以下值之一: ${allowedModes.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * 输出路径参数校验函数（相对于输出目录的路径）
+ */
+export function validateOutputPath(outputPath: unknown, name = 'outputPath'): string | null {
+  if (outputPath === undefined) {
+    return null;
+  }
+  if (typeof outputPath !== 'string' || outputPath.trim().length === 0 || outputPath.length > 255) {
+    return `${name} 必须是1到255个字符的字符串`;
+  }
+  if (outputPath.includes('\0') || /^([a-zA-Z]:)?[\\/]/.test(outputPath)) {
+    return `${name} 必须是相对于输出目录的路径`;
+  }
+  if (outputPath.split(/[\\/]/).some((segment) => segment === '..')) {
+    return `${name} 不能包含 .. 路径段`;
+  }
+  return null;
+}
+
+/**
+ * 请求超时参数校验函数
+ */
+export function validateTimeout(timeoutMs: unknown): string | null {
+  if (timeoutMs === undefined) {
+    return null;
+  }
+  if (typeof timeoutMs !== 'number' || !Number.isInteger(timeoutMs) || timeoutMs < 1000 || timeoutMs > 600000) {
+    return 'timeoutMs 必须是1000到600000之间的整数';
+  }
+  return null;
+}
+
+const BATCH_FORMATS = ['svg', 'png', 'jpeg', 'webp', 'pdf'];
+
+/**
+ * 批量渲染参数校验函数
+ */
+export function validateBatchOptions(params: {
+  items?: unknown;
+  format?: string;
+  concurrency?: number;
+}): string | null {
+  const { items, format, concurrency } = params;
+
+  // 验证图表列表
+  if (!Array.isArray(items)) {
+    return 'items 必须是数组';
+  }
+  if (items.length === 0) {
+    return 'items 不能为空';
+  }
+  if (items.length > 100) {
+    return 'items 最多包含100个图表';
+  }
+
+  const ids = new Set<string>();
+  const outputPaths = new Set<string>();
+  for (const [index, item] of items.entries()) {
+    if (!item || typeof item !== 'object') {
+      return `items[${index}] 必须是对象`;
+    }
+    const { id, format: itemFormat, outputPath } = item as { id?: unknown; format?: unknown; outputPath?: unknown };
+    if (id !== undefined) {
+      if (typeof id !== 'string' || id.length === 0 || id.length > 100) {
+        return `items[${index}].id 必须是1到100个字符的字符串`;
+      }
+      if (ids.has(id)) {
+        return `items[${index}].id 重复: ${id}`;
+      }
+      ids.add(id);
+    }
+    if (itemFormat !== undefined && !BATCH_FORMATS.includes(itemFormat as string)) {
+      return `items[${index}].format 必须是以下值之一: ${BATCH_FORMATS.join(', ')}`;
+    }
+    const outputPathError = validateOutputPath(outputPath, `items[${index}].outputPath`);
+    if (outputPathError) {
+      return outputPathError;
+    }
+    if (typeof outputPath === 'string') {
+      if (outputPaths.has(outputPath)) {
+        return `items[${index}].outputPath 重复: ${outputPath}`;
+      }
+      outputPaths.add(outputPath);
+    }
+  }
+
+  // 验证默认格式
+  if (format !== undefined && !BATCH_FORMATS.includes(format)) {
+    return `format 必须是以下值之一: ${BATCH_FORMATS.join(', ')}`;
+  }
+
+  // 验证并发数
+  if (concurrency !== undefined) {
+    if (typeof concurrency !== 'number' || !Number.isInteger(concurrency) || concurrency < 1 || concurrency > 10) {
+      return 'concurrency 必须是1到10之间的整数';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 以有限并发执行异步任务，结果顺序与输入一致
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const workers = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await task(items[index]!, index);
+    }
+  });
+
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * 读取SVG的尺寸（优先使用viewBox，其次为width/height属性），无法确定时返回 undefined
+ */
+export function parseSvgDimensions(svg: string): { width: number; height: number } | undefined {
+  const rootTag = /<svg\b[^>]*>/i.exec(svg)?.[0];
+  if (!rootTag) {
+    return undefined;
+  }
+
+  const viewBox = /\sviewBox\s*=\s*["']([^"']+)["']/i.exec(rootTag)?.[1]?.trim().split(/[\s,]+/).map(Number);
+  if (viewBox && viewBox.length === 4 && viewBox.every(Number.isFinite)) {
+    return { width: Math.round(viewBox[2]!), height: Math.round(viewBox[3]!) };
+  }
+
+  const width = parseFloat(/\swidth\s*=\s*["']([\d.]+)(px)?["']/i.exec(rootTag)?.[1] ?? '');
+  const height = parseFloat(/\sheight\s*=\s*["']([\d.]+)(px)?["']/i.exec(rootTag)?.[1] ?? '');
+  return Number.isFinite(width) && Number.isFinite(height) ? { width: Math.round(width), height: Math.round(height) } : undefined;
+}
+
 /**
  * 清理文件名，移除不安全的字符
  */
@@ -68,6 +376,19 @@ export function sanitizeFileName(fileName: string): string {
     .substring(0, 50);  // 限制长度
 }
 
+/**
+ * 格式化文件大小（B、KB、MB）
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
 /**
  * 生成安全的随机ID
  */
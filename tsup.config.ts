@@ -6,6 +6,7 @@ export default defineConfig({
     'server/simple-mcp-server': 'src/server/simple-mcp-server.ts',
     'server/sse-transport': 'src/server/sse-transport.ts',
     'server/utils': 'src/server/utils.ts',
+    'server/jsdom-worker': 'src/server/jsdom-worker.ts',
   },
   format: ['esm'],
   target: 'node18',
@@ -23,6 +24,7 @@ export default defineConfig({
     'jsdom',
     'mermaid',
     'puppeteer',
+    'yaml',
     'zod'
   ],
   banner: {